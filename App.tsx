@@ -1,9 +1,24 @@
 import React, { useState, useRef, useEffect } from 'react';
-import { BrandingConfig, SlideData } from './types';
-import { generateSlidesFromText } from './services/geminiService';
+import { BrandingConfig, BrandProfile, CandidateField, ProjectDocument, SlideData } from './types';
+import { fetchProviders, generateSlidesFromText, GenerationInfo, ProviderInfo, regenerateField, rewriteParagraph, RewriteMode } from './services/generationService';
+import { DeckAction, deckReducer, describeDeckAction } from './services/slideDeck';
+import { OverflowInfo, measureSlideOverflow, paginateSlides, splitSlideOverflow } from './services/pagination';
+import { CURRENT_SCHEMA_VERSION, createProjectDocument, getLastProjectId, listProjects, loadProject, saveProject, setLastProjectId } from './services/projectStore';
+import { ExportResult, ImportIssue, exportProjectBundle, exportProjectJson, importProjectFile } from './services/projectFile';
 import SlideRenderer from './components/SlideRenderer';
 import Editor from './components/Editor';
-import { Loader2, Download, Image as ImageIcon, Layout, Sparkles, AlertCircle, Type, Link as LinkIcon, Upload, X } from 'lucide-react';
+import ProjectPanel from './components/ProjectPanel';
+import HistoryPanel from './components/HistoryPanel';
+import Filmstrip from './components/Filmstrip';
+import ThemeEditor from './components/ThemeEditor';
+import BrandProfileSwitcher from './components/BrandProfileSwitcher';
+import AssetLibrary from './components/AssetLibrary';
+import { getParagraphDrag, getSlideDrag, isParagraphDrag, isSlideDrag, setSlideDrag } from './services/dragAndDrop';
+import { useHistory } from './hooks/useHistory';
+import { DEFAULT_THEME } from './services/theme';
+import { getRandomAsset } from './services/assetLibrary';
+import { plainTitle } from './services/titleStyle';
+import { Loader2, Download, Image as ImageIcon, Layout, Sparkles, AlertCircle, Type, Link as LinkIcon, Upload, X, FolderOpen, Check, CloudOff, History, Undo2, Redo2, WrapText, AlertTriangle, Images } from 'lucide-react';
 import { toBlob } from 'html-to-image';
 import JSZip from 'jszip';
 import saveAs from 'file-saver';
@@ -16,6 +31,7 @@ const initialBranding: BrandingConfig = {
   // Placeholder images - using simple icons to represent the logo
   logoUrl: 'https://cdn-icons-png.flaticon.com/512/3135/3135715.png', // Black infinity-like icon
   logoUrlDark: 'https://cdn-icons-png.flaticon.com/512/3135/3135768.png', // White/Light infinity-like icon
+  theme: DEFAULT_THEME,
 };
 
 // Placeholder data for initial view
@@ -27,69 +43,409 @@ const placeholderSlides: SlideData[] = [
     subtitle: 'Organize resolved issues into a structured system',
     category: '系统02-搞钱认知系统',
     content: ['你遇到的所有问题，都是你的财富。'],
-    backgroundImage: 'https://images.unsplash.com/photo-1618005182384-a83a8bd57fbe?q=80&w=600&auto=format&fit=crop',
+    generatedBackground: { kind: 'mesh', seed: 2024 },
     titleFontSize: 48,
     coverStyle: 'classic'
   }
 ];
 
+const AUTOSAVE_DELAY_MS = 800;
+
+const NO_AI_PROVIDER = 'none';
+
+type SaveStatus = 'idle' | 'saving' | 'saved' | 'error';
+
+// Everything that undo/redo covers
+interface EditableDocument {
+  slides: SlideData[];
+  branding: BrandingConfig;
+}
+
 function App() {
   const [inputText, setInputText] = useState('');
   const [manualTitle, setManualTitle] = useState('');
   const [manualSubtitle, setManualSubtitle] = useState('');
+  const [includePromo, setIncludePromo] = useState(true);
+  const [suggestLayouts, setSuggestLayouts] = useState(true);
+  const [providers, setProviders] = useState<ProviderInfo[]>([]);
+  const [provider, setProvider] = useState(''); // '' = server default, NO_AI_PROVIDER = local rules only
+  const [generationInfo, setGenerationInfo] = useState<GenerationInfo | null>(null);
   
-  const [slides, setSlides] = useState<SlideData[]>(placeholderSlides);
+  const history = useHistory<EditableDocument>({ slides: placeholderSlides, branding: initialBranding });
+  const { slides, branding } = history.state;
+  const [activeBrandProfile, setActiveBrandProfile] = useState<BrandProfile | null>(null);
+  const [isHistoryOpen, setIsHistoryOpen] = useState(false);
+  const [previewDropIndex, setPreviewDropIndex] = useState<number | null>(null);
   const [isGenerating, setIsGenerating] = useState(false);
+  const [generationStage, setGenerationStage] = useState('');
+  const generateAbortRef = useRef<AbortController | null>(null);
+  const [isPaginating, setIsPaginating] = useState(false);
   const [isDownloading, setIsDownloading] = useState(false);
   const [downloadStatus, setDownloadStatus] = useState(''); 
   
-  const [branding, setBranding] = useState<BrandingConfig>(initialBranding);
   const [activeSlideId, setActiveSlideId] = useState<string | null>(slides[0].id);
   const [error, setError] = useState<string | null>(null);
+
+  // Project persistence
+  const [projectId, setProjectId] = useState<string | null>(null);
+  const [projectName, setProjectName] = useState('');
+  const [saveStatus, setSaveStatus] = useState<SaveStatus>('idle');
+  const [isProjectPanelOpen, setIsProjectPanelOpen] = useState(false);
+  const [isAssetLibraryOpen, setIsAssetLibraryOpen] = useState(false);
+  const [importIssues, setImportIssues] = useState<ImportIssue[] | null>(null);
+  const projectCreatedAtRef = useRef<number>(Date.now());
   
   // Refs for the hidden export container
   const exportRefs = useRef<{ [key: string]: HTMLDivElement | null }>({});
 
-  // Helper to re-calculate page numbers after add/delete
-  const reindexSlides = (currentSlides: SlideData[]): SlideData[] => {
-    const totalCount = currentSlides.length; // Or just content slides? Usually RedNote counts all.
-    // Assuming Cover is not usually page 1 in page count, but let's count logically.
-    // Actually, usually Cover is separate, and Page 1 starts after.
-    // Based on previous code: Cover didn't have page numbers visible, Content did.
-    // Let's count content slides only for the X/Y indicator.
-    
-    const contentSlides = currentSlides.filter(s => s.type !== 'cover');
-    const totalContent = contentSlides.length;
-    
-    let contentIndex = 0;
-    
-    return currentSlides.map(slide => {
-      if (slide.type === 'cover') {
-        return { ...slide, totalPages: totalContent };
+  // Content slides whose text is clipped, measured on the export container
+  const [overflowById, setOverflowById] = useState<{ [id: string]: OverflowInfo }>({});
+
+  // --- HISTORY-AWARE MUTATIONS ---
+
+  // All slide changes go through the deck reducer so numbering is always recomputed
+  const dispatchDeck = (action: DeckAction, coalesceKey?: string) => {
+    history.commit(describeDeckAction(action), prev => {
+      const nextSlides = deckReducer(prev.slides, action);
+      return nextSlides === prev.slides ? prev : { ...prev, slides: nextSlides };
+    }, { coalesceKey });
+  };
+
+  const updateBranding = (label: string, patch: Partial<BrandingConfig>, coalesceKey?: string) => {
+    history.commit(label, prev => ({ ...prev, branding: { ...prev.branding, ...patch } }), { coalesceKey });
+  };
+
+  // Profiles supply generation defaults (tags, promo text); switching one also applies its branding
+  const handleActivateBrandProfile = (profile: BrandProfile | null, apply: boolean) => {
+    setActiveBrandProfile(profile);
+    if (profile && apply) {
+      updateBranding(`Switch to brand "${profile.name}"`, profile.branding);
+    }
+  };
+
+  // Ctrl+Z / Ctrl+Shift+Z (and Ctrl+Y). Overrides native textarea undo so that
+  // field edits and structural edits share one timeline. Fields whose value is not
+  // in the history are marked data-native-undo and keep the browser's own undo.
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey)) return;
+      if (e.target instanceof Element && e.target.closest('[data-native-undo]')) return;
+      const key = e.key.toLowerCase();
+      if (key === 'z') {
+        e.preventDefault();
+        if (e.shiftKey) history.redo(); else history.undo();
+      } else if (key === 'y') {
+        e.preventDefault();
+        history.redo();
       }
-      contentIndex++;
-      return {
-        ...slide,
-        pageNumber: contentIndex,
-        totalPages: totalContent
-      };
-    });
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [history.undo, history.redo]);
+
+  // Provider list is optional: without it the server default is used silently
+  useEffect(() => {
+    fetchProviders()
+      .then(setProviders)
+      .catch(e => console.warn('[Providers] Could not load provider list', e));
+  }, []);
+
+  // Undo can remove the selected slide; fall back to the first one
+  useEffect(() => {
+    if (activeSlideId && !slides.some(s => s.id === activeSlideId)) {
+      setActiveSlideId(slides[0]?.id ?? null);
+    }
+  }, [slides, activeSlideId]);
+
+  // --- OVERFLOW DETECTION ---
+
+  useEffect(() => {
+    let cancelled = false;
+    const measureAll = () => {
+      if (cancelled) return;
+      const next: { [id: string]: OverflowInfo } = {};
+      slides.forEach(slide => {
+        if (slide.type !== 'content') return;
+        const info = measureSlideOverflow(exportRefs.current[slide.id]);
+        if (info.hiddenParagraphs > 0) next[slide.id] = info;
+      });
+      setOverflowById(next);
+    };
+
+    // After layout, and again once web fonts have settled line heights
+    const frame = requestAnimationFrame(measureAll);
+    document.fonts?.ready.then(measureAll);
+    return () => {
+      cancelled = true;
+      cancelAnimationFrame(frame);
+    };
+  }, [slides, branding]);
+
+  const handleFixOverflow = async (id: string) => {
+    const slide = slides.find(s => s.id === id);
+    if (!slide) return;
+    try {
+      const { keep, overflow } = await splitSlideOverflow(slide, branding);
+      if (overflow.length === 0) return;
+      dispatchDeck({ type: 'moveOverflow', id, keep, overflow, newId: `overflow-slide-${Date.now()}` });
+    } catch (e) {
+      console.error('[Overflow] Fix failed', e);
+      setError('Failed to move overflowing text.');
+    }
+  };
+
+  // --- PROJECT PERSISTENCE ---
+
+  const applyProject = (doc: ProjectDocument) => {
+    setProjectId(doc.id);
+    setProjectName(doc.name);
+    projectCreatedAtRef.current = doc.createdAt;
+    history.reset({ slides: doc.slides, branding: doc.branding });
+    setInputText(doc.inputText);
+    setManualTitle(doc.manualTitle);
+    setManualSubtitle(doc.manualSubtitle);
+    setActiveSlideId(doc.slides[0]?.id ?? null);
+    setLastProjectId(doc.id);
+    setSaveStatus('saved');
+  };
+
+  const createBlankProject = () => createProjectDocument({
+    name: '',
+    slides: placeholderSlides,
+    branding,
+    inputText: '',
+    manualTitle: '',
+    manualSubtitle: '',
+  });
+
+  // Reopen the last project (or the most recent one) on startup
+  useEffect(() => {
+    let cancelled = false;
+    const restore = async () => {
+      try {
+        const lastId = getLastProjectId() || (await listProjects())[0]?.id;
+        const doc = lastId ? await loadProject(lastId, initialBranding) : null;
+        if (cancelled) return;
+        if (doc) {
+          applyProject(doc);
+          return;
+        }
+      } catch (e) {
+        console.error('[Projects] Failed to restore last project', e);
+      }
+      if (!cancelled) {
+        const blank = createBlankProject();
+        setProjectId(blank.id);
+        projectCreatedAtRef.current = blank.createdAt;
+        setLastProjectId(blank.id);
+      }
+    };
+    restore();
+    return () => { cancelled = true; };
+  }, []);
+
+  const buildProjectDocument = (id: string): ProjectDocument => ({
+    id,
+    schemaVersion: CURRENT_SCHEMA_VERSION,
+    name: projectName,
+    createdAt: projectCreatedAtRef.current,
+    updatedAt: Date.now(),
+    slides,
+    branding,
+    inputText,
+    manualTitle,
+    manualSubtitle,
+  });
+
+  // Autosave: debounce every change to the project document
+  useEffect(() => {
+    if (!projectId) return; // Not hydrated yet
+
+    setSaveStatus('saving');
+    const timer = setTimeout(async () => {
+      try {
+        await saveProject(buildProjectDocument(projectId));
+        setSaveStatus('saved');
+      } catch (e) {
+        console.error('[Projects] Autosave failed', e);
+        setSaveStatus('error');
+      }
+    }, AUTOSAVE_DELAY_MS);
+
+    return () => clearTimeout(timer);
+  }, [projectId, projectName, slides, branding, inputText, manualTitle, manualSubtitle]);
+
+  const handleOpenProject = async (id: string) => {
+    try {
+      const doc = await loadProject(id, initialBranding);
+      if (!doc) {
+        setError('Project not found.');
+        return;
+      }
+      applyProject(doc);
+      setIsProjectPanelOpen(false);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Failed to open project');
+    }
+  };
+
+  const handleNewProject = () => {
+    const blank = createBlankProject();
+    applyProject(blank);
+    setIsProjectPanelOpen(false);
+  };
+
+  const handleProjectDeleted = (id: string) => {
+    if (id === projectId) {
+      handleNewProject();
+    }
+  };
+
+  // --- PROJECT FILE IMPORT / EXPORT ---
+
+  const handleExportProject = async (kind: 'json' | 'bundle') => {
+    if (!projectId) return;
+    try {
+      const doc = buildProjectDocument(projectId);
+      const result: ExportResult = kind === 'json' ? await exportProjectJson(doc) : await exportProjectBundle(doc);
+      saveAs(result.blob, result.fileName);
+      if (result.unembedded.length > 0) {
+        setError(`${result.unembedded.length} image(s) could not be embedded and are still linked by URL.`);
+      }
+    } catch (e) {
+      console.error('[ProjectFile] Export failed', e);
+      setError('Failed to export project file.');
+    }
+  };
+
+  const handleImportProject = async (file: File) => {
+    try {
+      const { project, issues } = await importProjectFile(file, initialBranding);
+      const saved = await saveProject(project);
+      applyProject(saved);
+      setImportIssues(issues.length > 0 ? issues : null);
+      setIsProjectPanelOpen(false);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Failed to import project');
+      setIsProjectPanelOpen(false);
+    }
   };
 
   const handleGenerate = async () => {
     if (!inputText.trim()) return;
+    const controller = new AbortController();
+    generateAbortRef.current = controller;
     setIsGenerating(true);
     setError(null);
+    setGenerationInfo(null);
+    setGenerationStage(provider === NO_AI_PROVIDER ? 'Extracting cover...' : 'Writing cover...');
+
+    // Partial results stream into the deck as one undo entry that keeps being replaced
+    const runKey = `generate:${Date.now()}`;
+    const startEntry = history.currentEntry; // Where a cancel returns to, even if slides were edited meanwhile
+    let committed = false;
+    const commitGenerated = (next: SlideData[]) => {
+      history.commit('Generate slides', prev => ({ ...prev, slides: deckReducer(prev.slides, { type: 'replace', slides: next }) }), {
+        coalesceKey: runKey,
+        coalesceWindowMs: Infinity
+      });
+      committed = true;
+    };
+
     try {
-      const generatedSlides = await generateSlidesFromText(inputText, manualTitle, manualSubtitle);
-      setSlides(generatedSlides);
+      const { slides: rawSlides, generation } = await generateSlidesFromText(inputText, manualTitle, manualSubtitle, {
+        includePromo,
+        suggestLayouts,
+        coverImage: (await getRandomAsset())?.dataUrl,
+        promo: { ...activeBrandProfile?.promo, handle: activeBrandProfile?.promo.handle || branding.brandName },
+        defaultTags: activeBrandProfile?.defaultTags,
+        provider: provider && provider !== NO_AI_PROVIDER ? provider : undefined,
+        mode: provider === NO_AI_PROVIDER ? 'local' : 'ai',
+        signal: controller.signal
+      }, progress => {
+        if (progress.stage === 'metadata') {
+          // Cover first, content pages follow as they are paginated
+          setGenerationInfo(progress.generation);
+          commitGenerated(progress.slides);
+          setActiveSlideId(progress.slides[0]?.id ?? null);
+          setGenerationStage('Splitting paragraphs...');
+        } else {
+          setGenerationStage('Paginating...');
+        }
+      });
+      setGenerationInfo(generation);
+      const generatedSlides = await paginateSlides(rawSlides, branding, {
+        signal: controller.signal,
+        onProgress: partial => {
+          commitGenerated(partial);
+          setGenerationStage(`Paginating... ${partial.filter(s => s.type === 'content').length} pages`);
+        }
+      });
+      commitGenerated(generatedSlides);
       if (generatedSlides.length > 0) {
         setActiveSlideId(generatedSlides[0].id);
       }
     } catch (err) {
-      setError(err instanceof Error ? err.message : 'Something went wrong');
+      if (controller.signal.aborted) {
+        // Roll back the partial deck and any edits made to it; they stay reachable through redo
+        if (committed) history.restore(startEntry);
+      } else {
+        setError(err instanceof Error ? err.message : 'Something went wrong');
+      }
     } finally {
+      generateAbortRef.current = null;
       setIsGenerating(false);
+      setGenerationStage('');
+    }
+  };
+
+  const handleCancelGenerate = () => {
+    generateAbortRef.current?.abort();
+  };
+
+  const handleRewriteParagraph = (text: string, mode: RewriteMode, language?: 'en' | 'zh') =>
+    rewriteParagraph(text, mode, {
+      language,
+      provider: provider && provider !== NO_AI_PROVIDER ? provider : undefined
+    });
+
+  // New AI candidates for one cover field; the first one is applied, older ones stay pickable
+  const handleRegenerateField = async (slideId: string, field: CandidateField) => {
+    const slide = slides.find(s => s.id === slideId);
+    if (!slide) return;
+    const sourceText = inputText.trim() || slides.filter(s => s.type === 'content').flatMap(s => s.content).join('\n');
+    if (!sourceText) throw new Error('Add some content first');
+
+    const current = field === 'quote' ? slide.content[0] : field === 'tags' ? slide.tags : slide[field];
+    const existing: (string | string[])[] = slide.candidates?.[field] || (current ? [current] : []);
+    const fresh = await regenerateField(sourceText, field, {
+      provider: provider && provider !== NO_AI_PROVIDER ? provider : undefined,
+      exclude: existing
+    });
+
+    // Read the slide again inside the commit: it may have been edited while waiting
+    history.commit(`Regenerate ${field}`, prev => {
+      const latest = prev.slides.find(s => s.id === slideId);
+      if (!latest || fresh.length === 0) return prev;
+      const candidates = { ...latest.candidates, [field]: [...fresh, ...existing] };
+      const patch: Partial<SlideData> = field === 'quote'
+        ? { candidates, content: [fresh[0] as string, ...latest.content.slice(1)] }
+        : { candidates, [field]: fresh[0] };
+      return { ...prev, slides: deckReducer(prev.slides, { type: 'update', id: slideId, patch }) };
+    });
+  };
+
+  // Re-flow all content pages after manual edits, measuring the real layout again
+  const handleRepaginate = async () => {
+    setIsPaginating(true);
+    try {
+      const repaginated = await paginateSlides(slides, branding, { reflow: true });
+      dispatchDeck({ type: 'replace', slides: repaginated, label: 'Re-paginate' });
+    } catch (e) {
+      console.error('[Pagination] Failed', e);
+      setError('Failed to re-paginate slides.');
+    } finally {
+      setIsPaginating(false);
     }
   };
 
@@ -105,10 +461,7 @@ function App() {
     const reader = new FileReader();
     reader.onload = (event) => {
       if (event.target?.result) {
-        setBranding(prev => ({
-          ...prev,
-          [field]: event.target!.result as string
-        }));
+        updateBranding('Upload logo', { [field]: event.target!.result as string });
       }
     };
     reader.readAsDataURL(file);
@@ -121,45 +474,59 @@ function App() {
     const slideIndex = slides.findIndex(s => s.id === id);
     if (slideIndex === -1) return;
 
-    const newSlides = slides.filter(s => s.id !== id);
-    const reindexed = reindexSlides(newSlides);
-    setSlides(reindexed);
+    const remaining = slides.filter(s => s.id !== id);
+    dispatchDeck({ type: 'delete', id });
 
     // If we deleted the active slide, select the one before it, or after it
     if (activeSlideId === id) {
-       const nextIndex = Math.min(slideIndex, reindexed.length - 1);
-       if (reindexed[nextIndex]) {
-         setActiveSlideId(reindexed[nextIndex].id);
-       } else if (reindexed.length > 0) {
-         setActiveSlideId(reindexed[0].id);
-       } else {
-         setActiveSlideId(null);
-       }
+      const nextIndex = Math.min(slideIndex, remaining.length - 1);
+      setActiveSlideId(remaining[nextIndex]?.id ?? null);
     }
   };
 
   const handleAddSlide = (afterId: string) => {
-    const index = slides.findIndex(s => s.id === afterId);
-    if (index === -1) return;
-
-    const newSlide: SlideData = {
-      id: `manual-slide-${Date.now()}`,
-      type: 'content',
-      title: 'New Page',
-      content: ['Enter your text here...'],
-      category: slides[index].category, // Inherit category
-    };
+    const newId = `manual-slide-${Date.now()}`;
+    dispatchDeck({ type: 'add', afterId, newId });
+    setActiveSlideId(newId); // Switch to new slide
+  };
 
-    const newSlides = [...slides];
-    newSlides.splice(index + 1, 0, newSlide);
-    
-    const reindexed = reindexSlides(newSlides);
-    setSlides(reindexed);
-    setActiveSlideId(newSlide.id); // Switch to new slide
+  // --- DRAG AND DROP ---
+
+  // Slides dropped on a slide take its position; paragraphs dropped on a
+  // content slide are appended to it.
+  const handleDropOnSlide = (e: React.DragEvent, targetIndex: number) => {
+    const fromIndex = getSlideDrag(e);
+    if (fromIndex !== null) {
+      dispatchDeck({ type: 'move', fromIndex, toIndex: targetIndex });
+      return;
+    }
+
+    const paragraph = getParagraphDrag(e);
+    const target = slides[targetIndex];
+    if (paragraph && target && target.type === 'content' && paragraph.slideId !== target.id) {
+      dispatchDeck({
+        type: 'moveParagraph',
+        fromId: paragraph.slideId,
+        fromIndex: paragraph.index,
+        toId: target.id,
+        toIndex: target.content.length,
+      });
+      setActiveSlideId(target.id);
+    }
   };
 
   const handleDownloadAll = async () => {
     if (slides.length === 0) return;
+
+    // Deck-level check: clipped text is easy to miss until after posting
+    const overflowing = slides.filter(s => overflowById[s.id]);
+    if (overflowing.length > 0) {
+      const pages = overflowing.map(s => s.pageNumber).join(', ');
+      if (!confirm(`Text is cut off on ${overflowing.length} page(s) (${pages}). Export anyway?`)) {
+        setActiveSlideId(overflowing[0].id);
+        return;
+      }
+    }
     
     setIsDownloading(true);
     setDownloadStatus('Initializing...');
@@ -248,6 +615,57 @@ function App() {
           <h1 className="text-xl font-black text-slate-800 tracking-tight">RedNote Maker</h1>
         </div>
         <div className="flex items-center gap-4">
+          <div className="flex items-center gap-2">
+            <input
+              data-native-undo
+              value={projectName}
+              onChange={(e) => setProjectName(e.target.value)}
+              placeholder={plainTitle(slides.find(s => s.type === 'cover')?.title || '') || 'Untitled Carousel'}
+              className="w-56 px-3 py-2 text-sm bg-slate-50 border border-slate-200 rounded-lg focus:ring-2 focus:ring-rose-500 outline-none"
+              title="Project Name"
+            />
+            <span className="w-16 text-[11px] font-semibold text-slate-400 flex items-center gap-1">
+              {saveStatus === 'saving' && <><Loader2 size={12} className="animate-spin" /> Saving</>}
+              {saveStatus === 'saved' && <><Check size={12} className="text-green-500" /> Saved</>}
+              {saveStatus === 'error' && <span className="text-red-500 flex items-center gap-1"><CloudOff size={12} /> Not saved</span>}
+            </span>
+            <div className="relative flex items-center">
+              <button onClick={history.undo} disabled={!history.canUndo} className="p-2 text-slate-600 hover:bg-slate-100 disabled:text-slate-300 disabled:hover:bg-transparent rounded-lg transition" title="Undo (Ctrl+Z)"><Undo2 size={16} /></button>
+              <button onClick={history.redo} disabled={!history.canRedo} className="p-2 text-slate-600 hover:bg-slate-100 disabled:text-slate-300 disabled:hover:bg-transparent rounded-lg transition" title="Redo (Ctrl+Shift+Z)"><Redo2 size={16} /></button>
+              <button onClick={() => setIsHistoryOpen(open => !open)} className={`p-2 rounded-lg transition ${isHistoryOpen ? 'bg-rose-50 text-rose-600' : 'text-slate-600 hover:bg-slate-100'}`} title="History"><History size={16} /></button>
+              {isHistoryOpen && (
+                <HistoryPanel
+                  entries={history.entries}
+                  currentIndex={history.currentIndex}
+                  canUndo={history.canUndo}
+                  canRedo={history.canRedo}
+                  onUndo={history.undo}
+                  onRedo={history.redo}
+                  onJump={history.jumpTo}
+                />
+              )}
+            </div>
+            <button
+              onClick={() => setIsProjectPanelOpen(true)}
+              className="flex items-center gap-2 px-3 py-2 bg-white border border-slate-200 text-slate-700 rounded-lg hover:bg-slate-50 transition text-sm font-semibold"
+            >
+              <FolderOpen size={16} /> Projects
+            </button>
+            <button
+              onClick={() => setIsAssetLibraryOpen(true)}
+              className="flex items-center gap-2 px-3 py-2 bg-white border border-slate-200 text-slate-700 rounded-lg hover:bg-slate-50 transition text-sm font-semibold"
+            >
+              <Images size={16} /> Images
+            </button>
+          </div>
+          <button
+            onClick={handleRepaginate}
+            disabled={isPaginating || !slides.some(s => s.type === 'content')}
+            className="flex items-center gap-2 px-3 py-2 bg-white border border-slate-200 text-slate-700 rounded-lg hover:bg-slate-50 disabled:text-slate-300 transition text-sm font-semibold"
+            title="Re-flow all content pages to fit"
+          >
+            {isPaginating ? <Loader2 size={16} className="animate-spin" /> : <WrapText size={16} />} Re-paginate
+          </button>
           <button 
             onClick={handleDownloadAll}
             disabled={isDownloading || slides.length === 0}
@@ -276,6 +694,7 @@ function App() {
                   <div>
                     <label className="text-xs text-slate-500 font-semibold uppercase">Main Title</label>
                     <input 
+                      data-native-undo
                       value={manualTitle}
                       onChange={(e) => setManualTitle(e.target.value)}
                       placeholder="e.g. 0经验转行全攻略"
@@ -285,6 +704,7 @@ function App() {
                   <div>
                     <label className="text-xs text-slate-500 font-semibold uppercase">Subtitle</label>
                     <input 
+                      data-native-undo
                       value={manualSubtitle}
                       onChange={(e) => setManualSubtitle(e.target.value)}
                       placeholder="e.g. 3个月拿到Offer"
@@ -297,33 +717,126 @@ function App() {
             <div className="mb-8">
               <label className="block text-sm font-bold text-slate-700 mb-2">Content Body</label>
               <textarea
+                data-native-undo
                 className="w-full h-48 p-4 border border-slate-200 rounded-xl focus:ring-2 focus:ring-rose-500 focus:border-transparent outline-none resize-none text-slate-600 text-sm leading-relaxed"
                 placeholder="Paste your FULL article here. Start directly with the intro sentence (e.g. '我当年...'). The AI will preserve it."
                 value={inputText}
                 onChange={(e) => setInputText(e.target.value)}
               />
+              <label className="mt-3 flex items-center gap-2 text-xs text-slate-500 font-semibold cursor-pointer select-none">
+                <input
+                  type="checkbox"
+                  checked={includePromo}
+                  onChange={(e) => setIncludePromo(e.target.checked)}
+                  className="accent-rose-500"
+                />
+                Append promo page (收藏 / 关注)
+              </label>
+              <label className="mt-2 flex items-center gap-2 text-xs text-slate-500 font-semibold cursor-pointer select-none" title="Stats, quotes, 3-column tables, numbered steps and checklists get their own page layout">
+                <input
+                  type="checkbox"
+                  checked={suggestLayouts}
+                  onChange={(e) => setSuggestLayouts(e.target.checked)}
+                  className="accent-rose-500"
+                />
+                Suggest slide layouts (数据 / 金句 / 对比 / 步骤)
+              </label>
+              <div className="mt-3 flex items-center gap-2">
+                <label className="text-xs text-slate-500 font-semibold shrink-0">AI Provider</label>
+                <select
+                  value={provider}
+                  onChange={(e) => setProvider(e.target.value)}
+                  className="flex-1 p-1.5 border border-slate-200 rounded-lg text-xs text-slate-600 bg-white outline-none focus:ring-2 focus:ring-rose-500"
+                >
+                  <option value="">Server default{providers.length > 0 ? ` (${providers.find(p => p.isDefault)?.label || 'unknown'})` : ''}</option>
+                  {providers.map(p => (
+                    <option key={p.id} value={p.id} disabled={!p.configured}>
+                      {p.label} · {p.model}{p.configured ? '' : ' (no API key)'}
+                    </option>
+                  ))}
+                  <option value={NO_AI_PROVIDER}>No AI (local rules, offline)</option>
+                </select>
+              </div>
               <button
                 onClick={handleGenerate}
                 disabled={isGenerating || !inputText.trim()}
                 className="mt-4 w-full py-3 bg-rose-500 hover:bg-rose-600 disabled:bg-slate-300 text-white rounded-xl font-bold flex justify-center items-center gap-2 transition shadow-lg shadow-rose-200"
               >
                 {isGenerating ? (
-                  <><Loader2 className="animate-spin" size={18} /> Generating...</>
+                  <><Loader2 className="animate-spin" size={18} /> {generationStage || 'Generating...'}</>
                 ) : (
                   <><Sparkles size={18} /> Transform to Slides</>
                 )}
               </button>
+              {isGenerating && (
+                <button
+                  onClick={handleCancelGenerate}
+                  className="mt-2 w-full py-2 bg-white border border-slate-200 hover:bg-slate-50 text-slate-600 rounded-xl text-xs font-bold flex justify-center items-center gap-1.5 transition"
+                >
+                  <X size={14} /> Cancel
+                </button>
+              )}
+              {generationInfo && generationInfo.mode !== 'ai' && (
+                <div className={`mt-4 p-3 text-xs rounded-lg flex items-start gap-2 ${generationInfo.mode === 'fallback' ? 'bg-amber-50 text-amber-700' : 'bg-slate-50 text-slate-600'}`}>
+                  <AlertTriangle size={16} className="shrink-0 mt-0.5" />
+                  <div>
+                    {generationInfo.mode === 'fallback' ? (
+                      <>
+                        <div className="font-bold">AI unavailable – cover generated offline</div>
+                        <div className="opacity-80 break-words">{generationInfo.fallbackReason}</div>
+                      </>
+                    ) : (
+                      <div className="font-bold">Cover generated with local rules (no AI)</div>
+                    )}
+                    <div className="mt-1">Check the title, category, tags and quote before exporting. Content pages are unaffected.</div>
+                  </div>
+                </div>
+              )}
+              {generationInfo && generationInfo.mode === 'ai' && generationInfo.aiFields.length < 5 && (
+                <div className="mt-4 p-3 bg-slate-50 text-slate-600 text-xs rounded-lg">
+                  AI ({generationInfo.provider}) filled: {generationInfo.aiFields.join(', ') || 'nothing'}. The rest was extracted locally.
+                  {generationInfo.validationErrors.length > 0 && (
+                    <ul className="mt-1 list-disc pl-4 text-slate-500 break-words">
+                      {generationInfo.validationErrors.map((issue, i) => <li key={i}>{issue.message}</li>)}
+                    </ul>
+                  )}
+                </div>
+              )}
               {error && (
                 <div className="mt-4 p-3 bg-red-50 text-red-600 text-xs rounded-lg flex items-start gap-2">
                   <AlertCircle size={16} className="shrink-0 mt-0.5" />
                   {error}
                 </div>
               )}
+              {importIssues && (
+                <div className="mt-4 p-3 bg-amber-50 text-amber-700 text-xs rounded-lg">
+                  <div className="flex items-center justify-between font-bold mb-1">
+                    <span className="flex items-center gap-1"><AlertCircle size={14} /> Imported with {importIssues.length} invalid field(s)</span>
+                    <button onClick={() => setImportIssues(null)} className="p-0.5 hover:bg-amber-100 rounded" title="Dismiss"><X size={14} /></button>
+                  </div>
+                  <ul className="space-y-0.5 max-h-32 overflow-y-auto">
+                    {importIssues.map((issue, i) => (
+                      <li key={i}><span className="font-mono">{issue.path}</span>: {issue.message}</li>
+                    ))}
+                  </ul>
+                </div>
+              )}
             </div>
 
             <div className="mb-8">
                <h3 className="text-sm font-bold text-slate-700 mb-4 pb-2 border-b">Global Branding</h3>
                <div className="space-y-4">
+                  {/* Brand Profiles */}
+                  <div>
+                    <label className="text-xs text-slate-500 font-semibold uppercase mb-1 block">Brand Profile</label>
+                    <BrandProfileSwitcher
+                      branding={branding}
+                      fallbackBranding={initialBranding}
+                      activeProfile={activeBrandProfile}
+                      onActivate={handleActivateBrandProfile}
+                    />
+                  </div>
+
                   {/* Dark Mode Logo (For Cover) */}
                   <div>
                     <label className="text-xs text-slate-500 font-semibold uppercase flex items-center gap-1 mb-1">
@@ -332,7 +845,7 @@ function App() {
                     <div className="flex gap-2">
                       <input 
                         value={branding.logoUrlDark}
-                        onChange={(e) => setBranding({...branding, logoUrlDark: e.target.value})}
+                        onChange={(e) => updateBranding('Edit dark logo URL', { logoUrlDark: e.target.value }, 'branding:logoUrlDark')}
                         placeholder="https://... or upload"
                         className="flex-1 p-2 bg-slate-50 border rounded text-xs font-mono truncate"
                       />
@@ -347,7 +860,7 @@ function App() {
                       </label>
                       {branding.logoUrlDark && (
                          <button 
-                           onClick={() => setBranding({...branding, logoUrlDark: ''})}
+                           onClick={() => updateBranding('Clear dark logo', { logoUrlDark: '' })}
                            className="bg-red-50 hover:bg-red-100 border border-red-100 rounded p-2 text-red-500 transition-colors"
                            title="Clear"
                          >
@@ -366,7 +879,7 @@ function App() {
                     <div className="flex gap-2">
                       <input 
                         value={branding.logoUrl}
-                        onChange={(e) => setBranding({...branding, logoUrl: e.target.value})}
+                        onChange={(e) => updateBranding('Edit logo URL', { logoUrl: e.target.value }, 'branding:logoUrl')}
                         placeholder="https://... or upload"
                         className="flex-1 p-2 bg-slate-50 border rounded text-xs font-mono truncate"
                       />
@@ -381,7 +894,7 @@ function App() {
                       </label>
                        {branding.logoUrl && (
                          <button 
-                           onClick={() => setBranding({...branding, logoUrl: ''})}
+                           onClick={() => updateBranding('Clear logo', { logoUrl: '' })}
                            className="bg-red-50 hover:bg-red-100 border border-red-100 rounded p-2 text-red-500 transition-colors"
                            title="Clear"
                          >
@@ -397,7 +910,7 @@ function App() {
                     <label className="text-xs text-slate-500 font-semibold uppercase">Brand Name (Top Right)</label>
                     <input 
                       value={branding.brandName}
-                      onChange={(e) => setBranding({...branding, brandName: e.target.value})}
+                      onChange={(e) => updateBranding('Edit brand name', { brandName: e.target.value }, 'branding:brandName')}
                       className="w-full mt-1 p-2 bg-slate-50 border rounded text-sm"
                     />
                   </div>
@@ -407,13 +920,21 @@ function App() {
                     <label className="text-xs text-slate-500 font-semibold uppercase">Footer Slogan</label>
                     <input 
                       value={branding.footerSlogan}
-                      onChange={(e) => setBranding({...branding, footerSlogan: e.target.value})}
+                      onChange={(e) => updateBranding('Edit footer slogan', { footerSlogan: e.target.value }, 'branding:footerSlogan')}
                       className="w-full mt-1 p-2 bg-slate-50 border rounded text-sm"
                     />
                   </div>
                </div>
             </div>
 
+            <div className="mb-8">
+               <h3 className="text-sm font-bold text-slate-700 mb-4 pb-2 border-b">Theme</h3>
+               <ThemeEditor
+                 theme={branding.theme}
+                 onChange={(label, theme, coalesceKey) => updateBranding(label, { theme }, coalesceKey)}
+               />
+            </div>
+
             <div className="p-4 bg-slate-50 rounded-xl border border-slate-100">
                <h4 className="font-bold text-slate-700 text-sm mb-2">Pro Tips</h4>
                <ul className="text-xs text-slate-500 space-y-2 list-disc pl-4">
@@ -427,30 +948,68 @@ function App() {
           </div>
         </div>
 
-        {/* Middle Panel: Preview Area */}
-        <div className="flex-1 bg-slate-100 overflow-y-auto p-8 flex flex-col items-center">
-          <div className="flex flex-col gap-10 pb-20 w-full items-center">
-            {slides.map((slide) => (
-              <div 
-                key={slide.id} 
-                className={`relative group cursor-pointer transition-all duration-300 ${activeSlideId === slide.id ? 'z-20 scale-[1.02] ring-4 ring-rose-500 ring-offset-4 shadow-2xl' : 'z-0 hover:z-10 hover:scale-[1.01] hover:shadow-xl'}`}
-                onClick={() => setActiveSlideId(slide.id)}
-              >
-                 {/* 
-                    Interactive Preview Renderer. 
-                 */}
-                 <SlideRenderer 
-                    data={slide} 
-                    branding={branding} 
-                    scale={1} 
-                  />
+        {/* Middle Panel: Filmstrip + Preview Area */}
+        <div className="flex-1 flex flex-col overflow-hidden">
+          <Filmstrip
+            slides={slides}
+            branding={branding}
+            activeSlideId={activeSlideId}
+            onSelect={setActiveSlideId}
+            onDropOnSlide={handleDropOnSlide}
+          />
+          <div className="flex-1 bg-slate-100 overflow-y-auto p-8 flex flex-col items-center">
+            <div className="flex flex-col gap-10 pb-20 w-full items-center">
+              {slides.map((slide, index) => (
+                <div 
+                  key={slide.id} 
+                  draggable
+                  onDragStart={(e) => setSlideDrag(e, index)}
+                  onDragOver={(e) => {
+                    if (isSlideDrag(e) || (slide.type === 'content' && isParagraphDrag(e))) {
+                      e.preventDefault();
+                      setPreviewDropIndex(index);
+                    }
+                  }}
+                  onDragLeave={() => setPreviewDropIndex(prev => prev === index ? null : prev)}
+                  onDrop={(e) => {
+                    e.preventDefault();
+                    setPreviewDropIndex(null);
+                    handleDropOnSlide(e, index);
+                  }}
+                  className={`relative group cursor-pointer transition-all duration-300 ${activeSlideId === slide.id ? 'z-20 scale-[1.02] ring-4 ring-rose-500 ring-offset-4 shadow-2xl' : 'z-0 hover:z-10 hover:scale-[1.01] hover:shadow-xl'} ${previewDropIndex === index ? 'ring-4 ring-sky-400 ring-offset-4' : ''}`}
+                  onClick={() => setActiveSlideId(slide.id)}
+                >
+                   {/* 
+                      Interactive Preview Renderer. 
+                   */}
+                   <SlideRenderer 
+                      data={slide} 
+                      branding={branding} 
+                      scale={1} 
+                    />
                 
-                {/* Overlay Badge */}
-                <div className="absolute top-2 left-2 bg-black/70 text-white text-xs px-2 py-1 rounded backdrop-blur-sm z-30 pointer-events-none">
-                   {slide.type === 'cover' ? 'COVER' : `PAGE ${slide.pageNumber}`}
+                  {/* Overlay Badge */}
+                  <div className="absolute top-2 left-2 bg-black/70 text-white text-xs px-2 py-1 rounded backdrop-blur-sm z-30 pointer-events-none">
+                     {slide.type === 'cover' ? 'COVER' : slide.type === 'promo' ? 'PROMO' : `PAGE ${slide.pageNumber}`}
+                  </div>
+
+                  {/* Overflow Badge */}
+                  {overflowById[slide.id] && (
+                    <div className="absolute top-2 right-2 z-30 flex items-center gap-1 bg-red-600 text-white text-xs font-bold pl-2 pr-1 py-1 rounded shadow-lg">
+                      <AlertTriangle size={12} />
+                      <span>{overflowById[slide.id].hiddenParagraphs} para · {overflowById[slide.id].overflowPx}px hidden</span>
+                      <button
+                        onClick={(e) => { e.stopPropagation(); handleFixOverflow(slide.id); }}
+                        className="ml-1 bg-white/20 hover:bg-white/30 px-1.5 rounded transition-colors"
+                        title="Move overflow to next slide"
+                      >
+                        Fix
+                      </button>
+                    </div>
+                  )}
                 </div>
-              </div>
-            ))}
+              ))}
+            </div>
           </div>
         </div>
 
@@ -458,15 +1017,37 @@ function App() {
         <div className="w-80 bg-white border-l border-slate-200 z-10 shadow-xl hidden lg:flex flex-col">
           <Editor 
             slides={slides} 
-            setSlides={setSlides} 
+            dispatchDeck={dispatchDeck}
+            overflow={activeSlideId ? overflowById[activeSlideId] : undefined}
+            onFixOverflow={handleFixOverflow}
             activeSlideId={activeSlideId} 
             setActiveSlideId={setActiveSlideId}
             onDeleteSlide={handleDeleteSlide}
             onAddSlide={handleAddSlide}
+            branding={branding}
+            onRegenerateField={provider === NO_AI_PROVIDER ? undefined : handleRegenerateField}
+            onRewriteParagraph={provider === NO_AI_PROVIDER ? undefined : handleRewriteParagraph}
           />
         </div>
 
       </div>
+
+      {isProjectPanelOpen && (
+        <ProjectPanel
+          currentProjectId={projectId}
+          fallbackBranding={initialBranding}
+          onOpenProject={handleOpenProject}
+          onNewProject={handleNewProject}
+          onProjectDeleted={handleProjectDeleted}
+          onImportProject={handleImportProject}
+          onExportProject={handleExportProject}
+          onClose={() => setIsProjectPanelOpen(false)}
+        />
+      )}
+
+      {isAssetLibraryOpen && (
+        <AssetLibrary onClose={() => setIsAssetLibraryOpen(false)} />
+      )}
     </div>
   );
 }
@@ -0,0 +1,200 @@
+import React, { useEffect, useState } from 'react';
+import { ImageAsset } from '../types';
+import { addAsset, deleteAsset, listAssets, parseTags, searchAssets, updateAsset } from '../services/assetLibrary';
+import { getClipboardImage } from '../services/imageData';
+import { X, Images, Upload, Search, Trash2, Tag, Loader2, Check } from 'lucide-react';
+
+interface AssetLibraryProps {
+  title?: string;
+  onPick?: (asset: ImageAsset) => void; // Without it the library is only managed, not picked from
+  onClose: () => void;
+}
+
+const AssetLibrary: React.FC<AssetLibraryProps> = ({ title = 'Image Library', onPick, onClose }) => {
+  const [assets, setAssets] = useState<ImageAsset[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isAdding, setIsAdding] = useState(false);
+  const [query, setQuery] = useState('');
+  const [editingId, setEditingId] = useState<string | null>(null); // Asset whose tags are being edited
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = async () => {
+    try {
+      setAssets(await listAssets());
+    } catch (e) {
+      console.error('[Assets] Failed to list assets', e);
+      setError('Could not read the image library from this browser.');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    refresh();
+  }, []);
+
+  // New images are tagged with the words currently searched for, so a filtered view stays complete
+  const addFiles = async (files: Blob[]) => {
+    if (files.length === 0) return;
+    setIsAdding(true);
+    setError(null);
+    try {
+      for (const file of files) {
+        await addAsset(file, parseTags(query.split(/\s+/).join(',')));
+      }
+    } catch (e) {
+      console.error('[Assets] Failed to add image', e);
+      setError(e instanceof Error && e.message ? e.message : 'Failed to add image.');
+    } finally {
+      setIsAdding(false);
+      await refresh();
+    }
+  };
+
+  useEffect(() => {
+    const handlePaste = (e: ClipboardEvent) => {
+      const file = getClipboardImage(e.clipboardData);
+      if (!file) return;
+      e.preventDefault();
+      addFiles([file]);
+    };
+    document.addEventListener('paste', handlePaste);
+    return () => document.removeEventListener('paste', handlePaste);
+  }, [query]);
+
+  const handleSaveTags = async (asset: ImageAsset, value: string) => {
+    setEditingId(null);
+    try {
+      await updateAsset({ ...asset, tags: parseTags(value) });
+      await refresh();
+    } catch (e) {
+      console.error('[Assets] Failed to save tags', e);
+      setError('Failed to save tags.');
+    }
+  };
+
+  const handleDelete = async (asset: ImageAsset) => {
+    if (!confirm(`Delete "${asset.name}" from the library? Slides already using it keep their copy.`)) return;
+    try {
+      await deleteAsset(asset.id);
+      await refresh();
+    } catch (e) {
+      console.error('[Assets] Delete failed', e);
+      setError('Failed to delete image.');
+    }
+  };
+
+  const allTags = [...new Set(assets.flatMap(asset => asset.tags))].sort();
+  const visible = searchAssets(assets, query);
+
+  return (
+    <div data-native-undo className="fixed inset-0 z-50 bg-black/40 flex items-center justify-center" onClick={onClose}>
+      <div className="bg-white rounded-2xl shadow-2xl w-[640px] max-h-[80vh] flex flex-col" onClick={(e) => e.stopPropagation()}>
+        <div className="p-4 border-b border-slate-100 flex justify-between items-center">
+          <h3 className="font-bold text-slate-800 flex items-center gap-2"><Images size={18} /> {title}</h3>
+          <div className="flex items-center gap-2">
+            <label className="cursor-pointer flex items-center gap-1 px-3 py-1.5 bg-rose-500 hover:bg-rose-600 text-white rounded-lg text-xs font-bold transition">
+              {isAdding ? <Loader2 size={14} className="animate-spin" /> : <Upload size={14} />} Upload
+              <input
+                type="file"
+                accept="image/*"
+                multiple
+                className="hidden"
+                onChange={(e) => {
+                  const files: File[] = e.target.files ? Array.from(e.target.files) : [];
+                  e.target.value = '';
+                  addFiles(files);
+                }}
+              />
+            </label>
+            <button onClick={onClose} className="p-1.5 text-slate-400 hover:text-slate-700 hover:bg-slate-100 rounded transition-colors" title="Close"><X size={18} /></button>
+          </div>
+        </div>
+
+        <div className="px-4 pt-3 space-y-2">
+          <div className="relative">
+            <Search size={14} className="absolute left-2.5 top-1/2 -translate-y-1/2 text-slate-400" />
+            <input
+              value={query}
+              onChange={(e) => setQuery(e.target.value)}
+              placeholder="Search by name or tag"
+              className="w-full pl-8 p-2 bg-slate-50 border rounded text-sm"
+            />
+          </div>
+          {allTags.length > 0 && (
+            <div className="flex flex-wrap gap-1">
+              {allTags.map(tag => (
+                <button
+                  key={tag}
+                  onClick={() => setQuery(query === tag ? '' : tag)}
+                  className={`px-2 py-0.5 rounded-full text-[11px] font-bold transition-colors ${query === tag ? 'bg-rose-500 text-white' : 'bg-slate-100 text-slate-500 hover:bg-slate-200'}`}
+                >
+                  #{tag}
+                </button>
+              ))}
+            </div>
+          )}
+          <p className="text-[11px] text-slate-400">Paste an image (Ctrl/⌘+V) to add it. Images are stored in this browser and work offline.</p>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-4">
+          {isLoading ? (
+            <div className="p-8 flex justify-center text-slate-400"><Loader2 className="animate-spin" size={20} /></div>
+          ) : visible.length === 0 ? (
+            <div className="p-8 text-center text-slate-400 text-sm">{assets.length === 0 ? 'No images yet. Upload or paste one.' : 'No images match this search'}</div>
+          ) : (
+            <div className="grid grid-cols-3 gap-3">
+              {visible.map(asset => (
+                <div key={asset.id} className="group rounded-lg border border-slate-200 overflow-hidden bg-white">
+                  <button
+                    onClick={() => onPick?.(asset)}
+                    disabled={!onPick}
+                    className="block w-full aspect-[4/3] bg-slate-100 relative"
+                    title={onPick ? 'Use this image' : asset.name}
+                  >
+                    <img src={asset.dataUrl} alt={asset.name} className="w-full h-full object-cover" />
+                    {onPick && (
+                      <span className="absolute inset-0 bg-black/40 opacity-0 group-hover:opacity-100 transition-opacity flex items-center justify-center text-white text-xs font-bold gap-1">
+                        <Check size={14} /> Use
+                      </span>
+                    )}
+                  </button>
+                  <div className="p-2">
+                    <div className="flex items-center gap-1">
+                      <span className="flex-1 min-w-0 text-[11px] font-bold text-slate-700 truncate" title={asset.name}>{asset.name}</span>
+                      <button onClick={() => setEditingId(asset.id)} className="p-1 text-slate-300 hover:text-slate-700 rounded" title="Edit tags"><Tag size={12} /></button>
+                      <button onClick={() => handleDelete(asset)} className="p-1 text-slate-300 hover:text-red-500 rounded" title="Delete"><Trash2 size={12} /></button>
+                    </div>
+                    {editingId === asset.id ? (
+                      <input
+                        autoFocus
+                        defaultValue={asset.tags.join(', ')}
+                        onBlur={(e) => handleSaveTags(asset, e.target.value)}
+                        onKeyDown={(e) => {
+                          if (e.key === 'Enter') e.currentTarget.blur();
+                          if (e.key === 'Escape') setEditingId(null);
+                        }}
+                        placeholder="Tags, comma separated"
+                        className="w-full mt-1 p-1 border rounded text-[11px]"
+                      />
+                    ) : (
+                      <div className="mt-1 text-[10px] text-slate-400 truncate">
+                        {asset.tags.length > 0 ? asset.tags.map(tag => `#${tag}`).join(' ') : 'No tags'}
+                      </div>
+                    )}
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+
+        {error && (
+          <div className="m-4 mt-0 p-3 bg-red-50 text-red-600 text-xs rounded-lg">{error}</div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default AssetLibrary;
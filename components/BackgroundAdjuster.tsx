@@ -0,0 +1,128 @@
+import React from 'react';
+import { BackgroundAdjust, GradientDirection } from '../types';
+import { ADJUST_RANGES, GRADIENT_DIRECTIONS, isAdjusted } from '../services/backgroundAdjust';
+import { RotateCcw } from 'lucide-react';
+
+interface BackgroundAdjusterProps {
+  image: string;
+  adjust: BackgroundAdjust;
+  onChange: (adjust: BackgroundAdjust | undefined) => void; // undefined = back to the untouched image
+}
+
+type SliderField = 'zoom' | 'blur' | 'brightness' | 'overlayOpacity' | 'gradientStrength';
+
+const SLIDERS: { field: SliderField; label: string; format: (value: number) => string }[] = [
+  { field: 'zoom', label: 'Zoom', format: v => `${v.toFixed(2)}x` },
+  { field: 'blur', label: 'Blur', format: v => `${v}px` },
+  { field: 'brightness', label: 'Brightness', format: v => `${v}%` },
+];
+
+const GRADIENT_LABELS: Record<GradientDirection, string> = {
+  auto: 'Style',
+  none: 'None',
+  top: 'Top',
+  bottom: 'Bottom',
+  left: 'Left',
+  right: 'Right',
+};
+
+// Crop and filter controls for a cover image. Click the thumbnail to set the focal point.
+const BackgroundAdjuster: React.FC<BackgroundAdjusterProps> = ({ image, adjust, onChange }) => {
+  const update = (patch: BackgroundAdjust) => onChange({ ...adjust, ...patch });
+  const valueOf = (field: keyof typeof ADJUST_RANGES) => adjust[field] ?? ADJUST_RANGES[field].default;
+
+  const handleFocus = (e: React.MouseEvent<HTMLImageElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    update({
+      focusX: Math.round(((e.clientX - rect.left) / rect.width) * 100),
+      focusY: Math.round(((e.clientY - rect.top) / rect.height) * 100),
+    });
+  };
+
+  const renderSlider = (field: SliderField, label: string, format: (value: number) => string) => {
+    const range = ADJUST_RANGES[field];
+    return (
+      <div key={field} className="flex items-center gap-2">
+        <span className="w-16 shrink-0 text-[10px] font-bold text-slate-500 uppercase">{label}</span>
+        <input
+          type="range"
+          min={range.min}
+          max={range.max}
+          step={range.step}
+          value={valueOf(field)}
+          onChange={(e) => update({ [field]: Number(e.target.value) })}
+          className="flex-1 accent-rose-500"
+        />
+        <span className="w-12 shrink-0 text-right text-[10px] font-mono text-slate-500">{format(valueOf(field))}</span>
+      </div>
+    );
+  };
+
+  const gradient = adjust.gradient || 'auto';
+
+  return (
+    <div className="bg-slate-50 p-3 rounded border border-slate-100 space-y-3">
+      <div className="flex justify-between items-center">
+        <span className="text-[10px] text-slate-500 font-semibold uppercase">Focal point (click the image)</span>
+        <button
+          onClick={() => onChange(undefined)}
+          disabled={!isAdjusted(adjust)}
+          className="text-[10px] font-bold text-slate-400 hover:text-slate-700 disabled:opacity-40 flex items-center gap-1"
+          title="Reset all adjustments"
+        >
+          <RotateCcw size={10} /> Reset
+        </button>
+      </div>
+      <div className="flex justify-center">
+        <div className="relative inline-block">
+          <img src={image} alt="" onClick={handleFocus} className="block max-h-40 max-w-full rounded cursor-crosshair" />
+          <span
+            className="absolute w-4 h-4 -ml-2 -mt-2 rounded-full border-2 border-white bg-rose-500/70 shadow pointer-events-none"
+            style={{ left: `${valueOf('focusX')}%`, top: `${valueOf('focusY')}%` }}
+          ></span>
+        </div>
+      </div>
+
+      {SLIDERS.map(({ field, label, format }) => renderSlider(field, label, format))}
+
+      <div className="flex items-center gap-2">
+        <span className="w-16 shrink-0 text-[10px] font-bold text-slate-500 uppercase">Tint</span>
+        <input
+          type="color"
+          value={adjust.overlayColor || '#000000'}
+          onChange={(e) => update({ overlayColor: e.target.value, overlayOpacity: adjust.overlayOpacity || 0.3 })}
+          className="w-7 h-7 shrink-0 p-0 border rounded cursor-pointer"
+        />
+        <input
+          type="range"
+          min={ADJUST_RANGES.overlayOpacity.min}
+          max={ADJUST_RANGES.overlayOpacity.max}
+          step={ADJUST_RANGES.overlayOpacity.step}
+          value={valueOf('overlayOpacity')}
+          onChange={(e) => update({ overlayOpacity: Number(e.target.value) })}
+          className="flex-1 accent-rose-500"
+        />
+        <span className="w-12 shrink-0 text-right text-[10px] font-mono text-slate-500">{Math.round(valueOf('overlayOpacity') * 100)}%</span>
+      </div>
+
+      <div>
+        <span className="block mb-1 text-[10px] font-bold text-slate-500 uppercase">Gradient (darkens the chosen edge)</span>
+        <div className="grid grid-cols-6 gap-1">
+          {GRADIENT_DIRECTIONS.map(direction => (
+            <button
+              key={direction}
+              onClick={() => update({ gradient: direction === 'auto' ? undefined : direction })}
+              className={`py-1 rounded border text-[10px] font-bold transition-colors ${gradient === direction ? 'border-rose-500 bg-rose-50 text-rose-700' : 'border-slate-200 text-slate-500 hover:border-slate-300 bg-white'}`}
+              title={direction === 'auto' ? "Use the cover style's own gradient" : undefined}
+            >
+              {GRADIENT_LABELS[direction]}
+            </button>
+          ))}
+        </div>
+      </div>
+      {gradient !== 'auto' && gradient !== 'none' && renderSlider('gradientStrength', 'Strength', v => `${Math.round(v * 100)}%`)}
+    </div>
+  );
+};
+
+export default BackgroundAdjuster;
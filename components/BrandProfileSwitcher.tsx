@@ -0,0 +1,234 @@
+import React, { useEffect, useState } from 'react';
+import saveAs from 'file-saver';
+import { BrandingConfig, BrandProfile, PromoDefaults } from '../types';
+import {
+  createBrandProfile,
+  deleteBrandProfile,
+  exportBrandProfiles,
+  getActiveBrandProfileId,
+  importBrandProfiles,
+  listBrandProfiles,
+  saveBrandProfile,
+  setActiveBrandProfileId
+} from '../services/brandProfiles';
+import { ImportIssue } from '../services/projectFile';
+import { AlertCircle, Check, Download, Plus, Save, Trash2, Upload, X } from 'lucide-react';
+
+interface BrandProfileSwitcherProps {
+  branding: BrandingConfig; // The open project's branding
+  fallbackBranding: BrandingConfig;
+  activeProfile: BrandProfile | null;
+  // `apply` is false when restoring the last active profile on startup: the
+  // project keeps its own branding, only the generation defaults follow the profile.
+  onActivate: (profile: BrandProfile | null, apply: boolean) => void;
+}
+
+const PROMO_INPUTS: { field: keyof PromoDefaults; label: string; placeholder: string }[] = [
+  { field: 'headline', label: 'Promo Headline', placeholder: '觉得有用就关注我吧' },
+  { field: 'handle', label: 'Account Handle', placeholder: '@超级个体研究院' },
+  { field: 'cta', label: 'Promo Copy', placeholder: '收藏 + 关注，干货不迷路' },
+];
+
+const BrandProfileSwitcher: React.FC<BrandProfileSwitcherProps> = ({
+  branding,
+  fallbackBranding,
+  activeProfile,
+  onActivate
+}) => {
+  const [profiles, setProfiles] = useState<BrandProfile[]>([]);
+  const [newName, setNewName] = useState<string | null>(null); // Non-null while naming a new profile
+  const [error, setError] = useState<string | null>(null);
+  const [importIssues, setImportIssues] = useState<ImportIssue[] | null>(null);
+
+  const refresh = async () => {
+    const list = await listBrandProfiles(fallbackBranding);
+    setProfiles(list);
+    return list;
+  };
+
+  useEffect(() => {
+    refresh()
+      .then(list => {
+        const active = list.find(p => p.id === getActiveBrandProfileId());
+        if (active) onActivate(active, false);
+      })
+      .catch(e => {
+        console.error('[BrandProfiles] Failed to list profiles', e);
+        setError('Could not read saved brand profiles from this browser.');
+      });
+  }, []);
+
+  const run = async (action: () => Promise<void>, failure: string) => {
+    setError(null);
+    try {
+      await action();
+    } catch (e) {
+      console.error('[BrandProfiles]', e);
+      setError(e instanceof Error && e.message ? e.message : failure);
+    }
+  };
+
+  const activate = (profile: BrandProfile | null, apply: boolean) => {
+    setActiveBrandProfileId(profile?.id ?? null);
+    onActivate(profile, apply);
+  };
+
+  const handleSelect = (id: string) => {
+    activate(profiles.find(p => p.id === id) ?? null, true);
+  };
+
+  const handleCreate = () => run(async () => {
+    const name = (newName || '').trim() || branding.brandName.trim() || 'Untitled brand';
+    const profile = await saveBrandProfile(createBrandProfile({
+      name,
+      branding,
+      defaultTags: activeProfile?.defaultTags ?? [],
+      promo: activeProfile?.promo ?? {},
+    }));
+    setNewName(null);
+    await refresh();
+    activate(profile, false);
+  }, 'Failed to save brand profile.');
+
+  // Saves profile edits straight away; the switcher has no separate save step
+  const update = (patch: Partial<BrandProfile>) => run(async () => {
+    if (!activeProfile) return;
+    const saved = await saveBrandProfile({ ...activeProfile, ...patch });
+    onActivate(saved, false);
+    await refresh();
+  }, 'Failed to save brand profile.');
+
+  const handleDelete = () => run(async () => {
+    if (!activeProfile || !window.confirm(`Delete brand profile "${activeProfile.name}"?`)) return;
+    await deleteBrandProfile(activeProfile.id);
+    onActivate(null, false);
+    await refresh();
+  }, 'Failed to delete brand profile.');
+
+  const handleExport = () => {
+    const list = activeProfile ? [activeProfile] : profiles;
+    if (list.length === 0) return;
+    const { blob, fileName } = exportBrandProfiles(list);
+    saveAs(blob, fileName);
+  };
+
+  const handleImport = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = ''; // Allow importing the same file again
+    if (!file) return;
+    run(async () => {
+      const { profiles: imported, issues } = await importBrandProfiles(file, fallbackBranding);
+      setImportIssues(issues.length > 0 ? issues : null);
+      await refresh();
+      activate(imported[0], true);
+    }, 'Failed to import brand profiles.');
+  };
+
+  const isModified = activeProfile !== null && JSON.stringify(activeProfile.branding) !== JSON.stringify(branding);
+
+  return (
+    <div className="space-y-3">
+      <div className="flex gap-2">
+        <select
+          value={activeProfile?.id ?? ''}
+          onChange={(e) => handleSelect(e.target.value)}
+          className="flex-1 min-w-0 p-2 bg-slate-50 border rounded text-sm"
+        >
+          <option value="">{profiles.length > 0 ? '— No profile —' : 'No saved profiles'}</option>
+          {profiles.map(profile => <option key={profile.id} value={profile.id}>{profile.name}</option>)}
+        </select>
+        <button onClick={() => setNewName(newName === null ? '' : null)} className="bg-slate-100 hover:bg-slate-200 border border-slate-200 rounded p-2 text-slate-600 transition-colors" title="Save current branding as a new profile">
+          <Plus size={16} />
+        </button>
+        <label className="cursor-pointer bg-slate-100 hover:bg-slate-200 border border-slate-200 rounded p-2 flex items-center justify-center text-slate-600 transition-colors" title="Import profiles (JSON)">
+          <Upload size={16} />
+          <input type="file" accept="application/json,.json" className="hidden" onChange={handleImport} />
+        </label>
+        <button onClick={handleExport} disabled={profiles.length === 0} className="bg-slate-100 hover:bg-slate-200 disabled:opacity-50 border border-slate-200 rounded p-2 text-slate-600 transition-colors" title={activeProfile ? 'Export this profile (JSON)' : 'Export all profiles (JSON)'}>
+          <Download size={16} />
+        </button>
+      </div>
+
+      {newName !== null && (
+        <div className="flex gap-2">
+          <input
+            data-native-undo
+            autoFocus
+            value={newName}
+            onChange={(e) => setNewName(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') handleCreate();
+              if (e.key === 'Escape') setNewName(null);
+            }}
+            placeholder={branding.brandName || 'Profile name'}
+            className="flex-1 min-w-0 p-2 bg-slate-50 border rounded text-sm"
+          />
+          <button onClick={handleCreate} className="px-3 bg-slate-900 hover:bg-slate-800 text-white rounded text-xs font-bold flex items-center gap-1">
+            <Check size={14} /> Save
+          </button>
+        </div>
+      )}
+
+      {activeProfile && (
+        <div className="p-3 bg-slate-50 border border-slate-100 rounded-lg space-y-2">
+          {isModified ? (
+            <div className="flex items-center justify-between gap-2 text-[11px] text-amber-700">
+              <span>This project's branding differs from the profile.</span>
+              <button onClick={() => update({ branding })} className="shrink-0 px-2 py-1 bg-white border border-amber-200 rounded font-bold flex items-center gap-1 hover:bg-amber-50" title="Save the current logos, names and theme into the profile">
+                <Save size={12} /> Update profile
+              </button>
+            </div>
+          ) : (
+            <p className="text-[11px] text-slate-400 flex items-center gap-1"><Check size={12} /> Branding matches the profile</p>
+          )}
+          <div>
+            <label className="text-[10px] text-slate-500 font-semibold uppercase">Default Tags (Comma separated)</label>
+            <input
+              data-native-undo
+              key={`${activeProfile.id}:tags`}
+              defaultValue={activeProfile.defaultTags.join(', ')}
+              onBlur={(e) => update({ defaultTags: e.target.value.split(/[,，]/).map(t => t.trim()).filter(Boolean) })}
+              placeholder="e.g. 超级个体, 干货分享"
+              className="w-full mt-1 p-2 bg-white border rounded text-xs"
+            />
+          </div>
+          {PROMO_INPUTS.map(({ field, label, placeholder }) => (
+            <div key={field}>
+              <label className="text-[10px] text-slate-500 font-semibold uppercase">{label}</label>
+              <input
+                data-native-undo
+                key={`${activeProfile.id}:${field}`}
+                defaultValue={activeProfile.promo[field] || ''}
+                onBlur={(e) => update({ promo: { ...activeProfile.promo, [field]: e.target.value.trim() || undefined } })}
+                placeholder={placeholder}
+                className="w-full mt-1 p-2 bg-white border rounded text-xs"
+              />
+            </div>
+          ))}
+          <button onClick={handleDelete} className="text-[11px] text-red-500 hover:text-red-600 font-bold flex items-center gap-1">
+            <Trash2 size={12} /> Delete profile
+          </button>
+        </div>
+      )}
+
+      {error && (
+        <p className="text-[11px] text-red-500 flex items-start gap-1"><AlertCircle size={12} className="shrink-0 mt-0.5" /> {error}</p>
+      )}
+      {importIssues && (
+        <div className="p-2 bg-amber-50 text-amber-700 text-[11px] rounded">
+          <div className="flex items-center justify-between font-bold mb-1">
+            <span>Imported with {importIssues.length} invalid field(s)</span>
+            <button onClick={() => setImportIssues(null)} className="p-0.5 hover:bg-amber-100 rounded" title="Dismiss"><X size={12} /></button>
+          </div>
+          <ul className="space-y-0.5 max-h-24 overflow-y-auto">
+            {importIssues.map((issue, i) => (
+              <li key={i}><span className="font-mono">{issue.path}</span>: {issue.message}</li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default BrandProfileSwitcher;
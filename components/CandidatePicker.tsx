@@ -0,0 +1,65 @@
+import React, { useState } from 'react';
+import { Loader2, RefreshCw } from 'lucide-react';
+
+interface CandidatePickerProps {
+  options: string[]; // Display text per candidate
+  selectedIndex: number; // -1 when the current value was typed by hand
+  onPick: (index: number) => void;
+  onRegenerate?: () => Promise<void>; // Fetches new candidates for just this field
+}
+
+const CandidatePicker: React.FC<CandidatePickerProps> = ({
+  options,
+  selectedIndex,
+  onPick,
+  onRegenerate
+}) => {
+  const [isRegenerating, setIsRegenerating] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  if (options.length <= 1 && !onRegenerate) return null;
+
+  const handleRegenerate = async () => {
+    if (!onRegenerate) return;
+    setIsRegenerating(true);
+    setError(null);
+    try {
+      await onRegenerate();
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Failed to regenerate');
+    } finally {
+      setIsRegenerating(false);
+    }
+  };
+
+  return (
+    <div className="mt-1.5">
+      <div className="flex flex-wrap gap-1.5">
+        {options.length > 1 && options.map((option, index) => (
+          <button
+            key={`${index}-${option}`}
+            onClick={() => onPick(index)}
+            title={option}
+            className={`max-w-full truncate px-2 py-1 rounded-full text-[11px] border transition-colors ${index === selectedIndex ? 'border-rose-500 bg-rose-50 text-rose-700 font-bold' : 'border-slate-200 text-slate-600 hover:border-slate-300 hover:bg-slate-50'}`}
+          >
+            {option}
+          </button>
+        ))}
+        {onRegenerate && (
+          <button
+            onClick={handleRegenerate}
+            disabled={isRegenerating}
+            className="px-2 py-1 rounded-full text-[11px] border border-dashed border-slate-300 text-slate-500 hover:text-rose-600 hover:border-rose-300 disabled:opacity-60 flex items-center gap-1 transition-colors"
+            title="Ask the AI for new options for this field only"
+          >
+            {isRegenerating ? <Loader2 size={11} className="animate-spin" /> : <RefreshCw size={11} />}
+            {isRegenerating ? 'Thinking...' : 'More options'}
+          </button>
+        )}
+      </div>
+      {error && <p className="mt-1 text-[10px] text-red-500">{error}</p>}
+    </div>
+  );
+};
+
+export default CandidatePicker;
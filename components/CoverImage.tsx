@@ -0,0 +1,28 @@
+import React from 'react';
+import { BackgroundAdjust } from '../types';
+import { gradientStyle, imageStyle, overlayStyle } from '../services/backgroundAdjust';
+
+interface CoverImageProps {
+  src: string;
+  adjust?: BackgroundAdjust;
+  className?: string; // Positions the frame, e.g. "absolute inset-0"
+  children?: React.ReactNode; // The cover style's own gradient, shown while adjust.gradient is 'auto'
+}
+
+// A cover background with the slide's crop, filters, tint and gradient. Used by every
+// cover style, so the preview, thumbnails and the PNG export all render it the same way.
+const CoverImage: React.FC<CoverImageProps> = ({ src, adjust, className = '', children }) => {
+  const overlay = overlayStyle(adjust);
+  const gradient = gradientStyle(adjust);
+  const direction = adjust?.gradient || 'auto';
+
+  return (
+    <div className={`overflow-hidden ${className}`}>
+      <img src={src} alt="Cover" className="w-full h-full" style={imageStyle(adjust)} crossOrigin="anonymous" />
+      {overlay && <div className="absolute inset-0" style={overlay}></div>}
+      {direction === 'auto' ? children : gradient && <div className="absolute inset-0" style={gradient}></div>}
+    </div>
+  );
+};
+
+export default CoverImage;
@@ -0,0 +1,84 @@
+import React, { useLayoutEffect, useRef, useState } from 'react';
+import { TitleStyle } from '../types';
+import { InlineNode, parseInline } from '../services/richText';
+import { AUTO_FIT_MAX, AUTO_FIT_MIN, titleTextStyle } from '../services/titleStyle';
+
+interface CoverTitleProps {
+  title: string;
+  titleStyle?: TitleStyle;
+  fontSize: number; // px, unless titleStyle.autoFit
+  fitHeight: number; // px the cover style leaves for the title; auto-fit sizes the title into it
+  highlight: string; // Color of ==marked== words without a color of their own
+  className?: string; // The cover style's look: color, weight, line height, default alignment
+  style?: React.CSSProperties; // The cover style's own inline styles, e.g. a handwriting font
+}
+
+// A cover title with highlighted words, outline, alignment, spacing and auto-fit. Used by every
+// cover style, so the title looks the same in the preview, thumbnails and the PNG export.
+const CoverTitle: React.FC<CoverTitleProps> = ({ title, titleStyle, fontSize, fitHeight, highlight, className = '', style }) => {
+  const ref = useRef<HTMLHeadingElement>(null);
+  const [fittedSize, setFittedSize] = useState<number | null>(null);
+  const autoFit = !!titleStyle?.autoFit;
+
+  useLayoutEffect(() => {
+    const el = ref.current;
+    if (!autoFit || !el) {
+      setFittedSize(null);
+      return;
+    }
+
+    const fits = (size: number) => {
+      el.style.fontSize = `${size}px`;
+      return el.scrollHeight <= fitHeight && el.scrollWidth <= el.clientWidth;
+    };
+    // Largest whole pixel size that fits; the minimum is used even if it still overflows
+    const fit = () => {
+      let low = AUTO_FIT_MIN;
+      let high = AUTO_FIT_MAX;
+      while (low < high) {
+        const mid = Math.ceil((low + high) / 2);
+        if (fits(mid)) low = mid;
+        else high = mid - 1;
+      }
+      el.style.fontSize = `${low}px`;
+      setFittedSize(low);
+    };
+
+    fit();
+    // Measuring starts loading the bundled fonts; fit again once they have changed the metrics
+    let cancelled = false;
+    document.fonts?.ready.then(() => {
+      if (!cancelled) fit();
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [autoFit, title, fitHeight, titleStyle?.font, titleStyle?.letterSpacing, titleStyle?.strokeWidth]);
+
+  // Marked words take their colors in order, the same order highlightedWords lists them
+  let highlightIndex = 0;
+  const renderNodes = (nodes: InlineNode[]): React.ReactNode[] =>
+    nodes.map((node, i) => {
+      if (node.type === 'text') return node.text;
+      if (node.type === 'highlight') {
+        const color = titleStyle?.highlightColors?.[highlightIndex++] || highlight;
+        return <span key={i} style={{ color }}>{renderNodes(node.children)}</span>;
+      }
+      const children = renderNodes(node.children);
+      if (node.type === 'italic') return <em key={i} className="italic">{children}</em>;
+      if (node.type === 'strike') return <s key={i} className="line-through">{children}</s>;
+      return <span key={i}>{children}</span>;
+    });
+
+  return (
+    <h1
+      ref={ref}
+      className={`break-words whitespace-pre-wrap ${className}`}
+      style={{ ...style, ...titleTextStyle(titleStyle), fontSize: `${autoFit && fittedSize ? fittedSize : fontSize}px` }}
+    >
+      {renderNodes(parseInline(title))}
+    </h1>
+  );
+};
+
+export default CoverTitle;
@@ -0,0 +1,65 @@
+import React, { useState } from 'react';
+import { SlideData, BrandingConfig } from '../types';
+import SlideRenderer from './SlideRenderer';
+import { isParagraphDrag, isSlideDrag, setSlideDrag } from '../services/dragAndDrop';
+
+interface FilmstripProps {
+  slides: SlideData[];
+  branding: BrandingConfig;
+  activeSlideId: string | null;
+  onSelect: (id: string) => void;
+  onDropOnSlide: (e: React.DragEvent, targetIndex: number) => void;
+}
+
+const THUMB_SCALE = 0.16; // 450x600 -> 72x96
+
+const Filmstrip: React.FC<FilmstripProps> = ({
+  slides,
+  branding,
+  activeSlideId,
+  onSelect,
+  onDropOnSlide
+}) => {
+  const [dropIndex, setDropIndex] = useState<number | null>(null);
+
+  return (
+    <div className="w-full bg-white/80 backdrop-blur border-b border-slate-200 px-4 py-3 flex gap-3 overflow-x-auto shrink-0">
+      {slides.map((slide, index) => {
+        const acceptsParagraph = slide.type === 'content';
+        return (
+          <div
+            key={slide.id}
+            draggable
+            onDragStart={(e) => setSlideDrag(e, index)}
+            onDragOver={(e) => {
+              if (isSlideDrag(e) || (acceptsParagraph && isParagraphDrag(e))) {
+                e.preventDefault();
+                setDropIndex(index);
+              }
+            }}
+            onDragLeave={() => setDropIndex(prev => prev === index ? null : prev)}
+            onDrop={(e) => {
+              e.preventDefault();
+              setDropIndex(null);
+              onDropOnSlide(e, index);
+            }}
+            onClick={() => onSelect(slide.id)}
+            className={`relative shrink-0 cursor-grab active:cursor-grabbing rounded overflow-hidden transition-all ${activeSlideId === slide.id ? 'ring-2 ring-rose-500' : 'ring-1 ring-slate-200 hover:ring-slate-400'} ${dropIndex === index ? 'ring-2 ring-sky-500 scale-105' : ''}`}
+            style={{ width: 450 * THUMB_SCALE, height: 600 * THUMB_SCALE }}
+            title={slide.type === 'cover' ? 'Cover' : slide.type === 'promo' ? 'Promo' : `Page ${slide.pageNumber}`}
+          >
+            {/* Thumbnails are decorative; keep them out of pointer events so drags start on the wrapper */}
+            <div className="pointer-events-none">
+              <SlideRenderer data={slide} branding={branding} scale={THUMB_SCALE} />
+            </div>
+            <span className="absolute bottom-0.5 right-0.5 bg-black/70 text-white text-[9px] font-bold px-1 rounded pointer-events-none">
+              {slide.type === 'cover' ? 'C' : slide.type === 'promo' ? 'P' : slide.pageNumber}
+            </span>
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+export default Filmstrip;
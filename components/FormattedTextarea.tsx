@@ -0,0 +1,124 @@
+import React, { useRef } from 'react';
+import { Bold, Italic, Highlighter, Strikethrough, Sticker, List, ListChecks, MessageSquareQuote } from 'lucide-react';
+
+interface FormattedTextareaProps {
+  value: string;
+  onChange: (value: string) => void;
+  rows?: number;
+  className?: string;
+}
+
+interface Edit {
+  text: string;
+  selectionStart: number;
+  selectionEnd: number;
+}
+
+// --- TEXT EDITS ---
+
+// Wraps the selection in a mark, or removes the mark when the selection is already wrapped
+const toggleWrap = (value: string, start: number, end: number, before: string, after: string, placeholder: string): Edit => {
+  if (value.slice(start - before.length, start) === before && value.slice(end, end + after.length) === after) {
+    return {
+      text: value.slice(0, start - before.length) + value.slice(start, end) + value.slice(end + after.length),
+      selectionStart: start - before.length,
+      selectionEnd: end - before.length,
+    };
+  }
+  const inner = value.slice(start, end) || placeholder;
+  return {
+    text: value.slice(0, start) + before + inner + after + value.slice(end),
+    selectionStart: start + before.length,
+    selectionEnd: start + before.length + inner.length,
+  };
+};
+
+// Any list, checklist or quote prefix; switching between them replaces it
+const LINE_PREFIX = /^(?:[-*+]\s+(?:\[[ xX]\]\s+)?|>\s*(?:\[!\w+\]\s*)?)/;
+
+// Adds a prefix to every selected line, or strips it when all lines already have it
+const toggleLinePrefix = (value: string, start: number, end: number, prefix: (index: number) => string, existing: RegExp): Edit => {
+  const lineStart = value.lastIndexOf('\n', start - 1) + 1;
+  const nextBreak = value.indexOf('\n', end);
+  const lineEnd = nextBreak === -1 ? value.length : nextBreak;
+  const lines = value.slice(lineStart, lineEnd).split('\n');
+
+  const remove = lines.every(line => existing.test(line));
+  const block = lines
+    .map((line, i) => remove ? line.replace(existing, '') : prefix(i) + line.replace(LINE_PREFIX, ''))
+    .join('\n');
+
+  return {
+    text: value.slice(0, lineStart) + block + value.slice(lineEnd),
+    selectionStart: lineStart,
+    selectionEnd: lineStart + block.length,
+  };
+};
+
+// --- ACTIONS ---
+
+interface FormatAction {
+  label: string;
+  icon: any;
+  apply: (value: string, start: number, end: number) => Edit;
+}
+
+const ACTIONS: FormatAction[] = [
+  { label: 'Bold', icon: Bold, apply: (v, s, e) => toggleWrap(v, s, e, '**', '**', '加粗') },
+  { label: 'Italic', icon: Italic, apply: (v, s, e) => toggleWrap(v, s, e, '*', '*', '斜体') },
+  { label: 'Highlight', icon: Highlighter, apply: (v, s, e) => toggleWrap(v, s, e, '==', '==', '高亮') },
+  { label: 'Strikethrough', icon: Strikethrough, apply: (v, s, e) => toggleWrap(v, s, e, '~~', '~~', '删除') },
+  { label: 'Badge', icon: Sticker, apply: (v, s, e) => toggleWrap(v, s, e, '{{', '}}', '🔥 必看') },
+  { label: 'Bullet list', icon: List, apply: (v, s, e) => toggleLinePrefix(v, s, e, () => '- ', /^[-*+]\s+(?!\[[ xX]\])/) },
+  { label: 'Checklist', icon: ListChecks, apply: (v, s, e) => toggleLinePrefix(v, s, e, () => '- [ ] ', /^[-*+]\s+\[[ xX]\]\s+/) },
+  { label: 'Callout', icon: MessageSquareQuote, apply: (v, s, e) => toggleLinePrefix(v, s, e, i => i === 0 ? '> [!tip] ' : '> ', /^>\s*(?:\[!\w+\]\s*)?/) },
+];
+
+// Paragraph textarea with a formatting toolbar that inserts the Markdown-style
+// marks SlideRenderer understands.
+const FormattedTextarea: React.FC<FormattedTextareaProps> = ({ value, onChange, rows = 4, className = '' }) => {
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+
+  const run = (action: FormatAction) => {
+    const textarea = textareaRef.current;
+    if (!textarea) return;
+    const edit = action.apply(value, textarea.selectionStart, textarea.selectionEnd);
+    onChange(edit.text);
+    // Restore the selection once the new value has rendered
+    requestAnimationFrame(() => {
+      textarea.focus();
+      textarea.setSelectionRange(edit.selectionStart, edit.selectionEnd);
+    });
+  };
+
+  return (
+    <div>
+      <div className="flex gap-0.5 mb-1">
+        {ACTIONS.map(action => {
+          const Icon = action.icon;
+          return (
+            <button
+              key={action.label}
+              // Keep focus (and the selection) in the textarea
+              onMouseDown={(e) => e.preventDefault()}
+              onClick={() => run(action)}
+              className="p-1 rounded text-slate-400 hover:text-slate-900 hover:bg-slate-100 transition-colors"
+              title={action.label}
+            >
+              <Icon size={12} />
+            </button>
+          );
+        })}
+      </div>
+      <textarea
+        ref={textareaRef}
+        rows={rows}
+        className={className}
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+      />
+    </div>
+  );
+};
+
+export default FormattedTextarea;
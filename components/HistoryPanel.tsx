@@ -0,0 +1,49 @@
+import React from 'react';
+import { Undo2, Redo2, History } from 'lucide-react';
+
+interface HistoryPanelProps {
+  entries: { label: string; timestamp: number }[];
+  currentIndex: number;
+  canUndo: boolean;
+  canRedo: boolean;
+  onUndo: () => void;
+  onRedo: () => void;
+  onJump: (index: number) => void;
+}
+
+const HistoryPanel: React.FC<HistoryPanelProps> = ({
+  entries,
+  currentIndex,
+  canUndo,
+  canRedo,
+  onUndo,
+  onRedo,
+  onJump
+}) => {
+  return (
+    <div className="absolute right-0 top-full mt-2 w-72 bg-white rounded-xl shadow-2xl border border-slate-200 z-50 flex flex-col max-h-[60vh]">
+      <div className="p-3 border-b border-slate-100 flex justify-between items-center">
+        <span className="text-xs font-bold text-slate-500 uppercase flex items-center gap-1"><History size={12} /> History</span>
+        <div className="flex items-center gap-1">
+          <button onClick={onUndo} disabled={!canUndo} className="p-1.5 text-slate-500 hover:bg-slate-100 disabled:text-slate-300 disabled:hover:bg-transparent rounded transition-colors" title="Undo (Ctrl+Z)"><Undo2 size={14} /></button>
+          <button onClick={onRedo} disabled={!canRedo} className="p-1.5 text-slate-500 hover:bg-slate-100 disabled:text-slate-300 disabled:hover:bg-transparent rounded transition-colors" title="Redo (Ctrl+Shift+Z)"><Redo2 size={14} /></button>
+        </div>
+      </div>
+      <div className="flex-1 overflow-y-auto p-1">
+        {/* Newest first */}
+        {entries.map((entry, index) => ({ entry, index })).reverse().map(({ entry, index }) => (
+          <button
+            key={`${index}-${entry.timestamp}`}
+            onClick={() => onJump(index)}
+            className={`w-full text-left px-3 py-2 rounded-lg text-xs flex justify-between items-center transition-colors ${index === currentIndex ? 'bg-rose-50 text-rose-700 font-bold' : index > currentIndex ? 'text-slate-300 hover:bg-slate-50' : 'text-slate-600 hover:bg-slate-50'}`}
+          >
+            <span className="truncate">{entry.label}</span>
+            <span className="font-mono text-[10px] text-slate-400 shrink-0 ml-2">{new Date(entry.timestamp).toLocaleTimeString()}</span>
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default HistoryPanel;
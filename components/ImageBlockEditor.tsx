@@ -0,0 +1,88 @@
+import React, { useState } from 'react';
+import { AlertCircle, Upload } from 'lucide-react';
+import { IMAGE_RATIOS, ImageBlock, ImageFit, ImageFocus } from '../services/richText';
+import { imageToDataUrl } from '../services/imageData';
+
+interface ImageBlockEditorProps {
+  image: ImageBlock;
+  onChange: (image: ImageBlock) => void;
+}
+
+const FITS: { fit: ImageFit; label: string; title: string }[] = [
+  { fit: 'cover', label: 'Crop', title: 'Fill the frame, cutting off the edges' },
+  { fit: 'contain', label: 'Fit', title: 'Show the whole image inside the frame' },
+];
+
+const FOCUSES: { focus: ImageFocus; label: string }[] = [
+  { focus: 'top', label: 'Top' },
+  { focus: 'center', label: 'Center' },
+  { focus: 'bottom', label: 'Bottom' },
+];
+
+const optionClass = (active: boolean) =>
+  `px-2 py-1 rounded border text-[10px] font-bold transition-colors ${active ? 'border-rose-500 bg-rose-50 text-rose-700' : 'border-slate-200 text-slate-500 hover:border-slate-300'}`;
+
+// Edits an image block ("![caption](src ...)") in place of the paragraph textarea
+const ImageBlockEditor: React.FC<ImageBlockEditorProps> = ({ image, onChange }) => {
+  const [error, setError] = useState<string | null>(null);
+
+  const update = (patch: Partial<ImageBlock>) => onChange({ ...image, ...patch });
+
+  const handleReplace = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+    setError(null);
+    try {
+      update({ src: await imageToDataUrl(file) });
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Failed to read image.');
+    }
+  };
+
+  return (
+    <div className="p-2 border rounded space-y-2">
+      <div className="flex gap-2">
+        <div className="w-20 h-20 shrink-0 rounded bg-slate-100 overflow-hidden">
+          <img src={image.src} alt={image.caption} className="w-full h-full" style={{ objectFit: image.fit, objectPosition: `center ${image.focus}` }} />
+        </div>
+        <div className="flex-1 min-w-0 space-y-2">
+          <input
+            className="w-full p-2 text-sm border rounded focus:ring-2 focus:ring-slate-900 outline-none"
+            value={image.caption}
+            onChange={(e) => update({ caption: e.target.value })}
+            placeholder="Caption (optional)"
+          />
+          <label className="cursor-pointer inline-flex items-center gap-1 text-[11px] font-bold text-slate-500 hover:text-slate-700">
+            <Upload size={12} /> Replace image
+            <input type="file" accept="image/*" className="hidden" onChange={handleReplace} />
+          </label>
+        </div>
+      </div>
+      <div className="flex flex-wrap items-center gap-1">
+        <span className="text-[10px] font-bold text-slate-400 uppercase mr-1">Frame</span>
+        {IMAGE_RATIOS.map(ratio => (
+          <button key={ratio} onClick={() => update({ ratio })} className={optionClass(image.ratio === ratio)}>{ratio}</button>
+        ))}
+      </div>
+      <div className="flex flex-wrap items-center gap-1">
+        {FITS.map(({ fit, label, title }) => (
+          <button key={fit} onClick={() => update({ fit })} className={optionClass(image.fit === fit)} title={title}>{label}</button>
+        ))}
+        {image.fit === 'cover' && (
+          <>
+            <span className="text-[10px] font-bold text-slate-400 uppercase ml-2 mr-1">Keep</span>
+            {FOCUSES.map(({ focus, label }) => (
+              <button key={focus} onClick={() => update({ focus })} className={optionClass(image.focus === focus)}>{label}</button>
+            ))}
+          </>
+        )}
+      </div>
+      {error && (
+        <p className="text-[11px] text-red-500 flex items-start gap-1"><AlertCircle size={12} className="shrink-0 mt-0.5" /> {error}</p>
+      )}
+    </div>
+  );
+};
+
+export default ImageBlockEditor;
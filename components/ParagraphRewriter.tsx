@@ -0,0 +1,126 @@
+import React, { useState } from 'react';
+import { Check, Languages, Loader2, Minimize2, RefreshCw, Smile, X, Zap } from 'lucide-react';
+import { RewriteMode } from '../services/generationService';
+import { diffText } from '../services/textDiff';
+
+type RewriteLanguage = 'en' | 'zh';
+
+interface ParagraphRewriterProps {
+  text: string;
+  onRewrite: (text: string, mode: RewriteMode, language?: RewriteLanguage) => Promise<string>;
+  onAccept: (rewritten: string) => void;
+}
+
+interface RewriteAction {
+  key: string;
+  mode: RewriteMode;
+  language?: RewriteLanguage;
+  label: string;
+  icon: any;
+}
+
+const ACTIONS: RewriteAction[] = [
+  { key: 'shorten', mode: 'shorten', label: 'Shorten', icon: Minimize2 },
+  { key: 'emoji', mode: 'emoji', label: 'Emoji', icon: Smile },
+  { key: 'punchier', mode: 'punchier', label: 'Punchier', icon: Zap },
+  { key: 'translate-en', mode: 'translate', language: 'en', label: 'EN', icon: Languages },
+  { key: 'translate-zh', mode: 'translate', language: 'zh', label: '中文', icon: Languages },
+];
+
+interface PendingRewrite {
+  action: RewriteAction;
+  original: string;
+  rewritten: string;
+}
+
+// AI rewrite buttons for one paragraph. The result is shown as a diff and only
+// replaces the paragraph once accepted.
+const ParagraphRewriter: React.FC<ParagraphRewriterProps> = ({ text, onRewrite, onAccept }) => {
+  const [loadingKey, setLoadingKey] = useState<string | null>(null);
+  const [pending, setPending] = useState<PendingRewrite | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const run = async (action: RewriteAction) => {
+    const original = text;
+    setLoadingKey(action.key);
+    setError(null);
+    try {
+      const rewritten = await onRewrite(original, action.mode, action.language);
+      setPending({ action, original, rewritten });
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Rewrite failed');
+    } finally {
+      setLoadingKey(null);
+    }
+  };
+
+  // Typing in the paragraph while a rewrite is pending would be silently lost on accept
+  const isStale = pending !== null && pending.original !== text;
+
+  return (
+    <div className="mt-1">
+      <div className={`flex flex-wrap gap-1 transition-opacity ${pending || loadingKey ? 'opacity-100' : 'opacity-0 group-hover:opacity-100 focus-within:opacity-100'}`}>
+        {ACTIONS.map(action => {
+          const Icon = action.icon;
+          return (
+            <button
+              key={action.key}
+              onClick={() => run(action)}
+              disabled={loadingKey !== null || !text.trim()}
+              className={`px-1.5 py-0.5 rounded text-[10px] font-bold flex items-center gap-1 border transition-colors disabled:opacity-50 ${pending?.action.key === action.key ? 'border-violet-400 bg-violet-50 text-violet-700' : 'border-slate-200 text-slate-500 hover:text-violet-600 hover:border-violet-300'}`}
+              title={`AI rewrite: ${action.label}`}
+            >
+              {loadingKey === action.key ? <Loader2 size={10} className="animate-spin" /> : <Icon size={10} />}
+              {action.label}
+            </button>
+          );
+        })}
+      </div>
+
+      {error && <p className="mt-1 text-[10px] text-red-500">{error}</p>}
+
+      {pending && (
+        <div className="mt-2 p-2 rounded border border-violet-200 bg-violet-50/40">
+          <div className="text-[10px] font-bold uppercase text-violet-500 mb-1">{pending.action.label} – review changes</div>
+          <p className="text-xs leading-relaxed whitespace-pre-wrap break-words">
+            {diffText(pending.original, pending.rewritten).map((part, i) => (
+              <span
+                key={i}
+                className={part.type === 'added' ? 'bg-green-100 text-green-800' : part.type === 'removed' ? 'bg-red-100 text-red-700 line-through' : 'text-slate-600'}
+              >
+                {part.text}
+              </span>
+            ))}
+          </p>
+          {isStale && (
+            <p className="mt-1 text-[10px] text-amber-600">The paragraph was edited after this rewrite. Retry to rewrite the current text.</p>
+          )}
+          <div className="mt-2 flex gap-1.5">
+            <button
+              onClick={() => { onAccept(pending.rewritten); setPending(null); }}
+              disabled={isStale}
+              className="px-2 py-1 rounded bg-violet-600 hover:bg-violet-700 disabled:bg-slate-300 text-white text-[11px] font-bold flex items-center gap-1"
+            >
+              <Check size={12} /> Accept
+            </button>
+            <button
+              onClick={() => setPending(null)}
+              className="px-2 py-1 rounded border border-slate-200 bg-white hover:bg-slate-50 text-slate-600 text-[11px] font-bold flex items-center gap-1"
+            >
+              <X size={12} /> Reject
+            </button>
+            <button
+              onClick={() => run(pending.action)}
+              disabled={loadingKey !== null}
+              className="px-2 py-1 rounded border border-slate-200 bg-white hover:bg-slate-50 text-slate-600 text-[11px] font-bold flex items-center gap-1"
+            >
+              <RefreshCw size={12} /> Retry
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ParagraphRewriter;
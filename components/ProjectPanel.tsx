@@ -0,0 +1,168 @@
+import React, { useEffect, useState } from 'react';
+import { BrandingConfig, ProjectSummary } from '../types';
+import { listProjects, deleteProject, duplicateProject } from '../services/projectStore';
+import { X, Plus, Copy, Trash2, FolderOpen, Loader2, Upload, FileJson, Package } from 'lucide-react';
+
+interface ProjectPanelProps {
+  currentProjectId: string | null;
+  fallbackBranding: BrandingConfig;
+  onOpenProject: (id: string) => void;
+  onNewProject: () => void;
+  onProjectDeleted: (id: string) => void;
+  onImportProject: (file: File) => void;
+  onExportProject: (kind: 'json' | 'bundle') => void;
+  onClose: () => void;
+}
+
+const formatTime = (timestamp: number) => {
+  if (!timestamp) return '';
+  return new Date(timestamp).toLocaleString();
+};
+
+const ProjectPanel: React.FC<ProjectPanelProps> = ({
+  currentProjectId,
+  fallbackBranding,
+  onOpenProject,
+  onNewProject,
+  onProjectDeleted,
+  onImportProject,
+  onExportProject,
+  onClose
+}) => {
+  const [projects, setProjects] = useState<ProjectSummary[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = async () => {
+    try {
+      setProjects(await listProjects());
+      setError(null);
+    } catch (e) {
+      console.error('[Projects] Failed to list projects', e);
+      setError('Could not read saved projects from this browser.');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    refresh();
+  }, []);
+
+  const handleDuplicate = async (id: string) => {
+    try {
+      await duplicateProject(id, fallbackBranding);
+      await refresh();
+    } catch (e) {
+      console.error('[Projects] Duplicate failed', e);
+      setError('Failed to duplicate project.');
+    }
+  };
+
+  const handleDelete = async (project: ProjectSummary) => {
+    if (!confirm(`Delete "${project.name}"? This cannot be undone.`)) return;
+    try {
+      await deleteProject(project.id);
+      onProjectDeleted(project.id);
+      await refresh();
+    } catch (e) {
+      console.error('[Projects] Delete failed', e);
+      setError('Failed to delete project.');
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/40 flex items-center justify-center" onClick={onClose}>
+      <div className="bg-white rounded-2xl shadow-2xl w-[520px] max-h-[80vh] flex flex-col" onClick={(e) => e.stopPropagation()}>
+        <div className="p-4 border-b border-slate-100 flex justify-between items-center">
+          <h3 className="font-bold text-slate-800 flex items-center gap-2"><FolderOpen size={18} /> Projects</h3>
+          <div className="flex items-center gap-2">
+            <button
+              onClick={onNewProject}
+              className="flex items-center gap-1 px-3 py-1.5 bg-rose-500 hover:bg-rose-600 text-white rounded-lg text-xs font-bold transition"
+            >
+              <Plus size={14} /> New Project
+            </button>
+            <button onClick={onClose} className="p-1.5 text-slate-400 hover:text-slate-700 hover:bg-slate-100 rounded transition-colors" title="Close"><X size={18} /></button>
+          </div>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-2">
+          {isLoading ? (
+            <div className="p-8 flex justify-center text-slate-400"><Loader2 className="animate-spin" size={20} /></div>
+          ) : projects.length === 0 ? (
+            <div className="p-8 text-center text-slate-400 text-sm">No saved projects yet</div>
+          ) : (
+            projects.map(project => (
+              <div
+                key={project.id}
+                className={`group flex items-center gap-3 p-3 rounded-lg cursor-pointer transition-colors ${project.id === currentProjectId ? 'bg-rose-50 ring-1 ring-rose-200' : 'hover:bg-slate-50'}`}
+                onClick={() => onOpenProject(project.id)}
+              >
+                <div className="flex-1 min-w-0">
+                  <div className="text-sm font-bold text-slate-800 truncate">{project.name}</div>
+                  <div className="text-[11px] text-slate-400">
+                    {project.slideCount} slides · {formatTime(project.updatedAt)}
+                    {project.id === currentProjectId && <span className="ml-2 text-rose-500 font-bold">OPEN</span>}
+                  </div>
+                </div>
+                <button
+                  onClick={(e) => { e.stopPropagation(); handleDuplicate(project.id); }}
+                  className="p-2 text-slate-300 hover:text-slate-700 hover:bg-slate-100 rounded transition-colors"
+                  title="Duplicate"
+                >
+                  <Copy size={16} />
+                </button>
+                <button
+                  onClick={(e) => { e.stopPropagation(); handleDelete(project); }}
+                  className="p-2 text-slate-300 hover:text-red-500 hover:bg-red-50 rounded transition-colors"
+                  title="Delete"
+                >
+                  <Trash2 size={16} />
+                </button>
+              </div>
+            ))
+          )}
+        </div>
+
+        {error && (
+          <div className="m-4 mt-0 p-3 bg-red-50 text-red-600 text-xs rounded-lg">{error}</div>
+        )}
+
+        <div className="p-4 border-t border-slate-100 flex items-center gap-2">
+          <label className="cursor-pointer flex items-center gap-1 px-3 py-1.5 bg-slate-100 hover:bg-slate-200 text-slate-700 rounded-lg text-xs font-bold transition" title="Import .rednote.json or .zip bundle">
+            <Upload size={14} /> Import
+            <input
+              type="file"
+              accept=".json,.zip,application/json,application/zip"
+              className="hidden"
+              onChange={(e) => {
+                const file = e.target.files?.[0];
+                if (file) onImportProject(file);
+                e.target.value = '';
+              }}
+            />
+          </label>
+          <div className="flex-1" />
+          <span className="text-[11px] text-slate-400 font-semibold">Export current:</span>
+          <button
+            onClick={() => onExportProject('json')}
+            className="flex items-center gap-1 px-3 py-1.5 bg-slate-100 hover:bg-slate-200 text-slate-700 rounded-lg text-xs font-bold transition"
+            title="Single file with embedded images"
+          >
+            <FileJson size={14} /> .rednote.json
+          </button>
+          <button
+            onClick={() => onExportProject('bundle')}
+            className="flex items-center gap-1 px-3 py-1.5 bg-slate-100 hover:bg-slate-200 text-slate-700 rounded-lg text-xs font-bold transition"
+            title="ZIP with project.json and image files"
+          >
+            <Package size={14} /> .zip
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ProjectPanel;
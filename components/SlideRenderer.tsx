@@ -1,6 +1,11 @@
 import React, { forwardRef } from 'react';
-import { SlideData, BrandingConfig } from '../types';
-import { MoveRight, Hash, Bookmark } from 'lucide-react';
+import { SlideData, BrandingConfig, ContentLayout } from '../types';
+import { CalloutKind, InlineNode, parseCallout, parseImageBlock, parseInline, parseListItem } from '../services/richText';
+import { themeToCssVars } from '../services/theme';
+import { collageImageSrcs, coverImageSrc } from '../services/generatedBackground';
+import CoverImage from './CoverImage';
+import CoverTitle from './CoverTitle';
+import { MoveRight, Hash, Bookmark, Star, UserPlus, ScanLine, Check, Lightbulb, Info, AlertTriangle, Flame, ImageIcon } from 'lucide-react';
 
 interface SlideRendererProps {
   data: SlideData;
@@ -8,6 +13,72 @@ interface SlideRendererProps {
   scale?: number;
 }
 
+// --- INLINE FORMATTING ---
+
+// Bold keeps the look of the surrounding line (the marker-style emphasis by default)
+const DEFAULT_BOLD = 'font-extrabold text-[color:var(--heading)] bg-[var(--accent-soft)] px-1 mx-0.5 rounded-sm border-b-2 border-[color:var(--accent-muted)]';
+
+const renderNodes = (nodes: InlineNode[], boldClass: string): React.ReactNode[] =>
+  nodes.map((node, i) => {
+    if (node.type === 'text') return node.text;
+    const children = renderNodes(node.children, boldClass);
+    switch (node.type) {
+      case 'bold':
+        return <span key={i} className={boldClass}>{children}</span>;
+      case 'italic':
+        return <em key={i} className="italic">{children}</em>;
+      case 'highlight':
+        return <mark key={i} className="bg-[var(--highlight)] text-inherit px-0.5 rounded-sm">{children}</mark>;
+      case 'strike':
+        return <s key={i} className="line-through decoration-2 decoration-[color:var(--accent)] text-[color:var(--muted)]">{children}</s>;
+      case 'badge':
+        return (
+          <span key={i} className="inline-block px-2 py-px mx-0.5 rounded-full bg-[var(--accent)] text-white text-[12px] font-bold leading-[1.5] align-[1px] not-italic">
+            {children}
+          </span>
+        );
+    }
+  });
+
+const renderInline = (text: string, boldClass: string = DEFAULT_BOLD) => renderNodes(parseInline(text), boldClass);
+
+// Callouts keep their signal colors on any theme; only the box follows the theme surface
+const CALLOUT_STYLES: Record<CalloutKind, { label: string; icon: any; box: string; accent: string }> = {
+  tip: { label: '小贴士', icon: Lightbulb, box: 'bg-[var(--surface)] border-emerald-500', accent: 'text-emerald-600' },
+  note: { label: '注意', icon: Info, box: 'bg-[var(--surface)] border-sky-500', accent: 'text-sky-600' },
+  warning: { label: '避坑', icon: AlertTriangle, box: 'bg-[var(--surface)] border-amber-500', accent: 'text-amber-600' },
+  important: { label: '重点', icon: Flame, box: 'bg-[var(--accent-soft)] border-[color:var(--accent)]', accent: 'text-[color:var(--accent)]' },
+};
+
+// --- CONTENT LAYOUT HELPERS ---
+
+const HEADING_BLOCK = /^#{1,6}\s+/;
+
+// Long numbers ("10万+", "2,000人") shrink so they stay on one line
+const statFontSize = (value: string) => (value.length <= 4 ? 104 : value.length <= 6 ? 80 : 60);
+
+// Comparison columns start at the first two headings ("## A", "## B"), or split in half
+const splitColumns = (content: string[]) => {
+  const headings = content.flatMap((block, i) => (HEADING_BLOCK.test(block.trim()) ? [i] : []));
+  const mid = headings.length >= 2 ? headings[1] : Math.ceil(content.length / 2);
+  return [{ start: 0, end: mid }, { start: mid, end: content.length }].map(({ start, end }) => {
+    const blocks = content.slice(start, end);
+    const hasTitle = blocks.length > 0 && HEADING_BLOCK.test(blocks[0].trim());
+    return {
+      start,
+      title: hasTitle ? blocks[0].trim().replace(HEADING_BLOCK, '') : null,
+      blocks: hasTitle ? blocks.slice(1) : blocks,
+      offset: hasTitle ? start + 1 : start,
+    };
+  });
+};
+
+// The note cover's handwriting; system Kaiti fonts keep it offline and in the PNG export
+const HANDWRITING_FONT = "'Kaiti SC', 'STKaiti', 'KaiTi', 'Xingkai SC', cursive";
+
+// Portrait images are narrowed so one never fills more than about half the page
+const MAX_IMAGE_HEIGHT = 320;
+
 const SlideRenderer = forwardRef<HTMLDivElement, SlideRendererProps>(({ data, branding, scale = 1 }, ref) => {
 
   // Standard Flexbox Layout
@@ -15,7 +86,10 @@ const SlideRenderer = forwardRef<HTMLDivElement, SlideRendererProps>(({ data, br
     width: '450px',
     height: '600px',
     flexShrink: 0,
-    backgroundColor: '#ffffff',
+    ...themeToCssVars(branding.theme),
+    backgroundColor: 'var(--bg)',
+    color: 'var(--text)',
+    fontFamily: 'var(--font-body)',
     position: 'relative',
     overflow: 'hidden',
     display: 'flex',
@@ -29,17 +103,17 @@ const SlideRenderer = forwardRef<HTMLDivElement, SlideRendererProps>(({ data, br
 
   // Standard Header with distinct background (Gray bg, 84px height)
   const ContentHeader = () => (
-    <div className="w-full h-[84px] px-8 flex items-center justify-between shrink-0 bg-slate-50 border-b border-slate-100 z-20">
+    <div className="w-full h-[84px] px-8 flex items-center justify-between shrink-0 bg-[var(--header)] border-b border-[color:var(--border)] z-20">
       <div className="flex items-center gap-3">
         {branding.logoUrl ? (
           <img src={branding.logoUrl} alt="Logo" className="h-[28px] w-auto object-contain" crossOrigin="anonymous" />
         ) : (
-          <span className="font-black text-sm tracking-tight text-slate-900 border-2 border-slate-900 px-1">
+          <span className="font-black text-sm tracking-tight text-[color:var(--heading)] border-2 border-[color:var(--heading)] px-1">
             {branding.logoText}
           </span>
         )}
       </div>
-      <span className="text-[12px] font-bold text-slate-800 tracking-wider border-b-2 border-rose-500 pb-0.5">
+      <span className="text-[12px] font-bold text-[color:var(--heading)] tracking-wider border-b-2 border-[color:var(--accent)] pb-0.5">
         {branding.brandName}
       </span>
     </div>
@@ -58,7 +132,7 @@ const SlideRenderer = forwardRef<HTMLDivElement, SlideRendererProps>(({ data, br
               crossOrigin="anonymous"
             />
           ) : (
-            <span className={`font-black text-lg tracking-tight ${dark ? 'text-white' : 'text-black'}`}>
+            <span className={`font-black text-lg tracking-tight ${dark ? 'text-white' : 'text-[color:var(--heading)]'}`}>
               {branding.logoText}
             </span>
           )}
@@ -66,7 +140,7 @@ const SlideRenderer = forwardRef<HTMLDivElement, SlideRendererProps>(({ data, br
         <div className="h-[28px] flex items-center">
           <span
             className="text-[14px] font-black leading-none"
-            style={{ color: dark ? '#ffffff' : '#000000' }} // Pure Black/White
+            style={{ color: dark ? '#ffffff' : 'var(--heading)' }} // White on images
           >
             {branding.brandName}
           </span>
@@ -76,13 +150,13 @@ const SlideRenderer = forwardRef<HTMLDivElement, SlideRendererProps>(({ data, br
   };
 
   const Footer = ({ pageInfo = false, light = false, centered = false }: { pageInfo?: boolean; light?: boolean; centered?: boolean }) => (
-    <div className={`w-full px-12 shrink-0 ${light ? '' : 'bg-white'} mt-auto z-10 py-5`}>
-      <div className={`pt-2 flex ${centered ? 'justify-center' : 'justify-between'} items-center ${pageInfo ? 'border-t border-slate-100' : ''}`}>
-        <span className={`text-[11px] font-bold tracking-[0.3em] uppercase leading-none truncate ${centered ? 'max-w-full' : 'max-w-[260px]'} ${light ? 'text-white/80' : (pageInfo ? 'text-slate-900' : 'text-slate-400')}`}>
+    <div className={`w-full px-12 shrink-0 ${light ? '' : 'bg-[var(--bg)]'} mt-auto z-10 py-5`}>
+      <div className={`pt-2 flex ${centered ? 'justify-center' : 'justify-between'} items-center ${pageInfo ? 'border-t border-[color:var(--border)]' : ''}`}>
+        <span className={`text-[11px] font-bold tracking-[0.3em] uppercase leading-none truncate ${centered ? 'max-w-full' : 'max-w-[260px]'} ${light ? 'text-white/80' : (pageInfo ? 'text-[color:var(--heading)]' : 'text-[color:var(--muted)]')}`}>
           {pageInfo ? (data.category || branding.footerSlogan) : branding.footerSlogan}
         </span>
         {pageInfo && (
-          <span className="text-slate-400 font-mono text-[11px] font-bold leading-none bg-slate-50 px-2 py-1 rounded">
+          <span className="text-[color:var(--muted)] font-mono text-[11px] font-bold leading-none bg-[var(--surface)] px-2 py-1 rounded">
             {data.pageNumber}/{data.totalPages}
           </span>
         )}
@@ -94,6 +168,33 @@ const SlideRenderer = forwardRef<HTMLDivElement, SlideRendererProps>(({ data, br
     if (!text) return null;
     const trimmedBlock = text.trim();
 
+    // 0. Image (Block Level): the frame has a fixed ratio, so pagination can measure it before the image loads
+    const image = parseImageBlock(trimmedBlock);
+    if (image) {
+      const [w, h] = image.ratio.split(':').map(Number);
+      return (
+        <figure key={idx} data-paragraph={idx} className="mb-5 last:mb-0">
+          <div
+            className="mx-auto overflow-hidden rounded-[var(--radius)] bg-[var(--surface)] border border-[color:var(--border)]"
+            style={{ width: `min(100%, ${Math.round(MAX_IMAGE_HEIGHT * w / h)}px)`, aspectRatio: `${w} / ${h}` }}
+          >
+            <img
+              src={image.src}
+              alt={image.caption}
+              className="w-full h-full"
+              style={{ objectFit: image.fit, objectPosition: `center ${image.focus}` }}
+              crossOrigin="anonymous"
+            />
+          </div>
+          {image.caption && (
+            <figcaption className="mt-2 text-[12px] text-[color:var(--muted)] text-center font-medium tracking-wide whitespace-pre-wrap">
+              {renderInline(image.caption)}
+            </figcaption>
+          )}
+        </figure>
+      );
+    }
+
     // 1. Table Logic (Block Level)
     // Check if block looks like a table (multiple lines, pipe chars)
     if (trimmedBlock.startsWith('|') && (trimmedBlock.includes('|---') || trimmedBlock.includes('| ---') || trimmedBlock.includes('|:---'))) {
@@ -102,21 +203,21 @@ const SlideRenderer = forwardRef<HTMLDivElement, SlideRendererProps>(({ data, br
       if (tableRows.length === 0) return null;
 
       return (
-        <div key={idx} className="my-6 w-full overflow-hidden border border-slate-200 rounded-lg shadow-sm">
+        <div key={idx} data-paragraph={idx} className="my-6 w-full overflow-hidden border border-[color:var(--border)] rounded-[var(--radius)] shadow-sm">
           <table className="w-full text-left text-[12px]">
-            <thead className="bg-slate-50 text-slate-900 font-bold uppercase tracking-wider border-b border-slate-200">
+            <thead className="bg-[var(--surface)] text-[color:var(--heading)] font-bold uppercase tracking-wider border-b border-[color:var(--border)]">
               <tr>
                 {tableRows[0].split('|').filter(c => c.trim() !== '').map((cell, i) => (
-                  <th key={i} className="px-3 py-2 text-center">{cell.trim()}</th>
+                  <th key={i} className="px-3 py-2 text-center">{renderInline(cell.trim())}</th>
                 ))}
               </tr>
             </thead>
-            <tbody className="divide-y divide-slate-100 bg-white">
+            <tbody className="divide-y divide-[color:var(--border)] bg-[var(--bg)]">
               {tableRows.slice(1).map((row, rIdx) => (
                 <tr key={rIdx}>
                   {row.split('|').filter(c => c.trim() !== '').map((cell, cIdx) => (
-                    <td key={cIdx} className="px-3 py-2 text-slate-600 font-medium text-center border-r border-slate-50 last:border-r-0">
-                      {cell.trim()}
+                    <td key={cIdx} className="px-3 py-2 text-[color:var(--text)] font-medium text-center border-r border-[color:var(--border)] last:border-r-0">
+                      {renderInline(cell.trim())}
                     </td>
                   ))}
                 </tr>
@@ -127,12 +228,32 @@ const SlideRenderer = forwardRef<HTMLDivElement, SlideRendererProps>(({ data, br
       );
     }
 
-    // 2. Line-by-Line Rendering
+    // 2. Callout (Block Level): "> [!tip] Title" followed by "> body" lines
+    const callout = parseCallout(trimmedBlock);
+    if (callout) {
+      const style = CALLOUT_STYLES[callout.kind];
+      const Icon = style.icon;
+      return (
+        <div key={idx} data-paragraph={idx} className={`mb-5 last:mb-0 px-4 py-3 rounded-[var(--radius)] border-l-4 ${style.box}`}>
+          <div className={`flex items-center gap-1.5 text-[13px] font-black tracking-wide ${style.accent}`}>
+            <Icon size={14} strokeWidth={2.5} />
+            {callout.title ? renderInline(callout.title) : style.label}
+          </div>
+          {callout.lines.map((line, lineIdx) => (
+            <p key={lineIdx} className="mt-1 text-[color:var(--text)] text-[14px] leading-[1.6] font-medium tracking-wide whitespace-pre-wrap">
+              {renderInline(line)}
+            </p>
+          ))}
+        </div>
+      );
+    }
+
+    // 3. Line-by-Line Rendering
     // Split block by newlines to handle "Internal Lines"
     const lines = text.split('\n');
 
     return (
-      <div key={idx} className="mb-5 last:mb-0">
+      <div key={idx} data-paragraph={idx} className="mb-5 last:mb-0">
         {lines.map((line, lineIdx) => {
           const trimmed = line.trim();
           if (!trimmed) return null;
@@ -141,43 +262,67 @@ const SlideRenderer = forwardRef<HTMLDivElement, SlideRendererProps>(({ data, br
           if (trimmed.startsWith('## ')) {
             return (
               <div key={lineIdx} className="mt-4 mb-3">
-                <h3 className="text-[24px] font-black text-slate-900 leading-tight tracking-tight">
-                  {trimmed.replace(/^##\s+/, '')}
+                <h3 className="[font-family:var(--font-heading)] text-[24px] font-black text-[color:var(--heading)] leading-tight tracking-tight">
+                  {renderInline(trimmed.replace(/^##\s+/, ''))}
                 </h3>
-                <div className="w-12 h-1.5 bg-rose-500 mt-2 rounded-full"></div>
+                <div className="w-12 h-1.5 bg-[var(--accent)] mt-2 rounded-full"></div>
               </div>
             );
           }
           // Header H4
           if (trimmed.startsWith('### ')) {
             return (
-              <h4 key={lineIdx} className="text-[18px] font-black text-slate-800 mt-4 mb-2 leading-snug flex items-center gap-2">
-                <span className="w-1.5 h-1.5 rounded-full bg-rose-500 inline-block"></span>
-                {trimmed.replace(/^###\s+/, '')}
+              <h4 key={lineIdx} className="[font-family:var(--font-heading)] text-[18px] font-black text-[color:var(--heading)] mt-4 mb-2 leading-snug flex items-center gap-2">
+                <span className="w-1.5 h-1.5 rounded-full bg-[var(--accent)] inline-block"></span>
+                {renderInline(trimmed.replace(/^###\s+/, ''))}
               </h4>
             );
           }
           // Numbered List
           if (/^\d+\./.test(trimmed)) {
             return (
-              <p key={lineIdx} className="text-slate-800 text-[15px] leading-[1.6] font-medium text-justify tracking-wide mb-2 pl-0 whitespace-pre-wrap">
-                {trimmed.split(/(\*\*.*?\*\*)/).map((part, i) =>
-                  part.startsWith('**') && part.endsWith('**') ?
-                    <span key={i} className="font-extrabold text-black">{part.slice(2, -2)}</span> :
-                    part
+              <p key={lineIdx} className="text-[color:var(--heading)] text-[15px] leading-[1.6] font-medium text-justify tracking-wide mb-2 pl-0 whitespace-pre-wrap">
+                {renderInline(trimmed, 'font-extrabold text-[color:var(--heading)]')}
+              </p>
+            );
+          }
+          // Checklist ("- [ ]" / "- [x]") and Bullet List ("- ", "* ", "+ ")
+          const item = parseListItem(trimmed);
+          if (item?.kind === 'check') {
+            return (
+              <p key={lineIdx} className={`text-[15px] leading-[1.6] font-medium text-justify tracking-wide mb-2 pl-7 relative whitespace-pre-wrap ${item.checked ? 'text-[color:var(--muted)]' : 'text-[color:var(--heading)]'}`}>
+                <span className={`absolute left-0 top-[0.2em] w-[18px] h-[18px] rounded border-2 flex items-center justify-center ${item.checked ? 'bg-[var(--accent)] border-[color:var(--accent)]' : 'border-[color:var(--border)] bg-[var(--bg)]'}`}>
+                  {item.checked && <Check size={12} strokeWidth={4} className="text-white" />}
+                </span>
+                <span className={item.checked ? 'line-through' : ''}>{renderInline(item.text, 'font-extrabold text-[color:var(--heading)]')}</span>
+              </p>
+            );
+          }
+          if (item) {
+            return (
+              <p key={lineIdx} className={`text-[color:var(--heading)] text-[15px] leading-[1.6] font-medium text-justify tracking-wide mb-2 relative whitespace-pre-wrap ${data.bulletMarker ? 'pl-6' : 'pl-4'}`}>
+                {data.bulletMarker ? (
+                  <span className="absolute left-0 top-0 w-5 text-center font-black text-[color:var(--accent)]">{data.bulletMarker}</span>
+                ) : (
+                  <span className="absolute left-0 top-[0.6em] w-1.5 h-1.5 rounded-full bg-[var(--accent)]"></span>
                 )}
+                {renderInline(item.text, 'font-extrabold text-[color:var(--heading)]')}
+              </p>
+            );
+          }
+          // Blockquote
+          if (trimmed.startsWith('>')) {
+            return (
+              <p key={lineIdx} className="text-[color:var(--text)] text-[15px] leading-[1.6] font-medium italic tracking-wide mb-1 pl-3 border-l-4 border-[color:var(--accent-muted)] whitespace-pre-wrap">
+                {renderInline(trimmed.replace(/^>\s?/, ''))}
               </p>
             );
           }
 
           // Standard Paragraph Line
           return (
-            <p key={lineIdx} className="text-slate-700 text-[15px] leading-[1.5] font-medium text-justify tracking-wide mb-1 whitespace-pre-wrap">
-              {trimmed.split(/(\*\*.*?\*\*)/).map((part, i) =>
-                part.startsWith('**') && part.endsWith('**') ?
-                  <span key={i} className="font-extrabold text-slate-900 bg-rose-50/80 px-1 mx-0.5 rounded-sm border-b-2 border-rose-100">{part.slice(2, -2)}</span> :
-                  part
-              )}
+            <p key={lineIdx} className="text-[color:var(--text)] text-[15px] leading-[1.5] font-medium text-justify tracking-wide mb-1 whitespace-pre-wrap">
+              {renderInline(trimmed)}
             </p>
           );
         })}
@@ -185,54 +330,201 @@ const SlideRenderer = forwardRef<HTMLDivElement, SlideRendererProps>(({ data, br
     );
   };
 
+  // --- CONTENT LAYOUTS ---
+
+  // Every layout keeps one [data-paragraph] child per content block so pagination can measure it
+  const renderLayoutFlow = (layout: ContentLayout) => {
+    switch (layout) {
+      case 'stat':
+        return (
+          <div data-slide-flow className="w-full flex-1 flex flex-col items-center justify-center text-center pb-8">
+            {data.content.map((text, idx) => {
+              if (idx === 0) {
+                return (
+                  <div key={idx} data-paragraph={idx} className="[font-family:var(--font-heading)] font-black leading-none tracking-tight text-[color:var(--accent)] break-all" style={{ fontSize: `${statFontSize(text.trim())}px` }}>
+                    {renderInline(text.trim(), 'font-black')}
+                  </div>
+                );
+              }
+              if (idx === 1) {
+                return (
+                  <div key={idx} data-paragraph={idx} className="mt-5 mb-6">
+                    <p className="text-[20px] font-black text-[color:var(--heading)] leading-snug whitespace-pre-wrap">{renderInline(text.trim())}</p>
+                    <div className="w-12 h-1.5 bg-[var(--accent)] mt-4 mx-auto rounded-full"></div>
+                  </div>
+                );
+              }
+              return renderParagraph(text, idx);
+            })}
+          </div>
+        );
+
+      case 'quote':
+        return (
+          <div data-slide-flow className="w-full flex-1 flex flex-col justify-center pb-8">
+            <div className="text-[96px] leading-none h-[64px] font-serif text-[color:var(--accent-muted)] select-none">❝</div>
+            {data.content.map((text, idx) => {
+              if (idx === 0) {
+                return (
+                  <p key={idx} data-paragraph={idx} className="[font-family:var(--font-heading)] text-[26px] font-black leading-[1.5] text-[color:var(--heading)] tracking-wide whitespace-pre-wrap">
+                    {renderInline(text.trim())}
+                  </p>
+                );
+              }
+              if (idx === 1) {
+                return (
+                  <p key={idx} data-paragraph={idx} className="mt-6 mb-5 flex items-center gap-3 text-[15px] font-bold text-[color:var(--muted)]">
+                    <span className="w-8 h-0.5 bg-[var(--accent)]"></span>
+                    {renderInline(text.trim())}
+                  </p>
+                );
+              }
+              return renderParagraph(text, idx);
+            })}
+          </div>
+        );
+
+      case 'comparison':
+        return (
+          <div data-slide-flow className="w-full grid grid-cols-2 gap-4 relative">
+            {splitColumns(data.content).map((column, c) => (
+              <div key={c} data-paragraph={column.start} className={`rounded-[var(--radius)] px-4 py-4 ${c === 0 ? 'bg-[var(--accent-soft)]' : 'bg-[var(--surface)]'}`}>
+                {column.title && (
+                  <div className={`[font-family:var(--font-heading)] text-[18px] font-black leading-snug mb-3 pb-2 border-b-2 ${c === 0 ? 'text-[color:var(--accent)] border-[color:var(--accent)]' : 'text-[color:var(--heading)] border-[color:var(--heading)]'}`}>
+                    {renderInline(column.title)}
+                  </div>
+                )}
+                {column.blocks.map((block, i) => renderParagraph(block, column.offset + i))}
+              </div>
+            ))}
+            <span className="absolute left-1/2 top-4 -translate-x-1/2 w-8 h-8 rounded-full bg-[var(--heading)] text-[color:var(--bg)] text-[11px] font-black italic flex items-center justify-center shadow-md">VS</span>
+          </div>
+        );
+
+      case 'image':
+        return (
+          <div data-slide-flow className="w-full">
+            <div className="w-full aspect-[4/3] rounded-[var(--radius)] overflow-hidden bg-[var(--surface)] mb-3 flex items-center justify-center">
+              {data.backgroundImage ? (
+                <img src={data.backgroundImage} alt={data.content[0] || 'Image'} className="w-full h-full object-cover" crossOrigin="anonymous" />
+              ) : (
+                <ImageIcon size={40} className="text-[color:var(--muted)]" />
+              )}
+            </div>
+            {data.content.map((text, idx) => idx === 0 ? (
+              <p key={idx} data-paragraph={idx} className="mb-5 text-[13px] font-medium text-[color:var(--muted)] text-center tracking-wide whitespace-pre-wrap">
+                {renderInline(text.trim())}
+              </p>
+            ) : renderParagraph(text, idx))}
+          </div>
+        );
+
+      case 'timeline':
+        return (
+          <div data-slide-flow className="w-full">
+            {data.content.map((text, idx) => {
+              const [head, ...rest] = text.trim().split('\n');
+              return (
+                <div key={idx} data-paragraph={idx} className="relative pl-12 pb-5 last:pb-0">
+                  {idx < data.content.length - 1 && <span className="absolute left-[15px] top-9 bottom-1 w-0.5 bg-[var(--accent-muted)]"></span>}
+                  <span className="absolute left-0 top-0 w-8 h-8 rounded-full bg-[var(--accent)] text-white text-[14px] font-black flex items-center justify-center">{(data.stepStart || 1) + idx}</span>
+                  <p className="[font-family:var(--font-heading)] pt-1 text-[17px] font-black text-[color:var(--heading)] leading-snug whitespace-pre-wrap">
+                    {renderInline(head.replace(/^\d+[.)、]\s*/, ''), 'font-black text-[color:var(--accent)]')}
+                  </p>
+                  {rest.filter(line => line.trim()).map((line, lineIdx) => (
+                    <p key={lineIdx} className="mt-1 text-[14px] text-[color:var(--text)] leading-[1.6] font-medium tracking-wide whitespace-pre-wrap">{renderInline(line.trim())}</p>
+                  ))}
+                </div>
+              );
+            })}
+          </div>
+        );
+
+      case 'checklist':
+        return (
+          <div data-slide-flow className="w-full">
+            {data.content.map((text, idx) => {
+              const [head, ...rest] = text.trim().split('\n');
+              const item = parseListItem(head.trim());
+              const checked = item?.kind === 'check' && item.checked;
+              return (
+                <div key={idx} data-paragraph={idx} className="flex items-start gap-3 py-3 border-b border-dashed border-[color:var(--border)] last:border-b-0">
+                  <span className={`shrink-0 mt-0.5 w-[22px] h-[22px] rounded-md border-2 flex items-center justify-center ${checked ? 'bg-[var(--accent)] border-[color:var(--accent)]' : 'border-[color:var(--accent-muted)] bg-[var(--bg)]'}`}>
+                    {checked && <Check size={14} strokeWidth={4} className="text-white" />}
+                  </span>
+                  <div className="min-w-0">
+                    <p className={`text-[17px] font-bold leading-snug tracking-wide whitespace-pre-wrap ${checked ? 'text-[color:var(--muted)] line-through' : 'text-[color:var(--heading)]'}`}>
+                      {renderInline(item ? item.text : head.trim(), 'font-black text-[color:var(--accent)]')}
+                    </p>
+                    {rest.filter(line => line.trim()).map((line, lineIdx) => (
+                      <p key={lineIdx} className="mt-1 text-[14px] text-[color:var(--text)] leading-[1.6] font-medium whitespace-pre-wrap">{renderInline(line.trim())}</p>
+                    ))}
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        );
+
+      default:
+        return (
+          <div data-slide-flow className="w-full">
+            {data.content.map((paragraph, idx) => renderParagraph(paragraph, idx))}
+          </div>
+        );
+    }
+  };
+
   // --- RENDERERS BY TYPE ---
 
   const renderCover = () => {
     const style = data.coverStyle || 'classic';
     const titleSize = data.titleFontSize || 48;
+    const coverImage = coverImageSrc(data, branding);
 
     // --- 1. CLASSIC STYLE (Split 60/40) ---
     if (style === 'classic') {
       return (
         <div ref={ref} style={containerStyle} className="shadow-2xl">
           <div className="h-[56%] w-full relative shrink-0">
-            <img
-              src={data.backgroundImage || "https://images.unsplash.com/photo-1618005182384-a83a8bd57fbe?q=80&w=600&auto=format&fit=crop"}
-              alt="Cover"
-              className="w-full h-full object-cover"
-              crossOrigin="anonymous"
-            />
-            <div className="absolute inset-0 bg-gradient-to-b from-slate-900/30 via-transparent to-slate-900/90 mix-blend-multiply"></div>
+            <CoverImage src={coverImage} adjust={data.backgroundAdjust} className="absolute inset-0">
+              <div className="absolute inset-0 bg-gradient-to-b from-slate-900/30 via-transparent to-slate-900/90 mix-blend-multiply"></div>
+            </CoverImage>
             <div className="absolute top-0 left-0 w-full h-[84px] pt-6 z-10">
               <CoverHeader dark />
             </div>
             <div className="absolute bottom-0 left-0 w-full px-8 pb-10 z-10 flex flex-col justify-end">
-              <h1 className="font-black text-white leading-[1.15] mb-3 tracking-tight drop-shadow-lg break-words whitespace-pre-wrap" style={{ fontSize: `${titleSize}px` }}>
-                {data.title}
-              </h1>
+              <CoverTitle
+                title={data.title}
+                titleStyle={data.titleStyle}
+                fontSize={titleSize}
+                fitHeight={200}
+                highlight="var(--highlight)"
+                className="[font-family:var(--font-heading)] font-black text-white leading-[1.15] mb-3 tracking-tight drop-shadow-lg"
+              />
               <p className="text-white/95 text-[17px] font-bold tracking-wide drop-shadow-md line-clamp-2 pr-4">{data.subtitle}</p>
             </div>
           </div>
-          <div className="flex-1 bg-white relative px-8 pt-[15px] pb-0 flex flex-col">
+          <div className="flex-1 bg-[var(--bg)] relative px-8 pt-[15px] pb-0 flex flex-col">
             <div className="flex flex-wrap gap-2 mb-[15px] shrink-0">
               {data.category && (
-                <div className="flex items-center gap-1.5 bg-rose-50 text-rose-600 px-3 py-1.5 rounded-lg text-xs font-bold border border-rose-100">
+                <div className="flex items-center gap-1.5 bg-[var(--accent-soft)] text-[color:var(--accent)] px-3 py-1.5 rounded-[var(--radius)] text-xs font-bold border border-[color:var(--accent-muted)]">
                   <Bookmark size={12} strokeWidth={3} /><span>{data.category}</span>
                 </div>
               )}
               {data.tags && data.tags.map((tag, i) => (
-                <div key={i} className="flex items-center gap-1 bg-slate-100 text-slate-600 px-3 py-1.5 rounded-lg text-xs font-bold"><Hash size={12} strokeWidth={3} /><span>{tag}</span></div>
+                <div key={i} className="flex items-center gap-1 bg-[var(--surface)] text-[color:var(--text)] px-3 py-1.5 rounded-[var(--radius)] text-xs font-bold"><Hash size={12} strokeWidth={3} /><span>{tag}</span></div>
               ))}
             </div>
             <div className="relative w-full mb-1 grow flex flex-col z-20">
-              <div className="bg-slate-50 rounded-2xl px-6 py-4 border border-slate-100 h-full flex flex-col justify-center relative shadow-sm min-h-[80px]">
-                <div className="absolute -top-1 left-4 text-slate-200 text-[60px] font-serif leading-none select-none pointer-events-none">❝</div>
-                <p className="relative z-10 text-slate-800 font-bold text-lg leading-relaxed text-center px-1">{data.content[0] || '你遇到的所有问题，都是你的财富。'}</p>
+              <div className="bg-[var(--surface)] rounded-[calc(var(--radius)*2)] px-6 py-4 border border-[color:var(--border)] h-full flex flex-col justify-center relative shadow-sm min-h-[80px]">
+                <div className="absolute -top-1 left-4 text-[color:var(--border)] text-[60px] font-serif leading-none select-none pointer-events-none">❝</div>
+                <p className="relative z-10 text-[color:var(--heading)] font-bold text-lg leading-relaxed text-center px-1">{data.content[0] || '你遇到的所有问题，都是你的财富。'}</p>
 
                 {/* Read More Button */}
-                <div className="absolute -bottom-3 right-[30px] bg-white rounded-full pl-5 pr-1.5 py-1.5 shadow-[0_4px_15px_rgba(0,0,0,0.1)] flex items-center gap-2 border border-slate-100 z-30">
-                  <span className="font-black text-slate-900 text-[12px] tracking-[0.2em] uppercase">Read More</span>
-                  <div className="w-5 h-5 rounded-full bg-rose-500 flex items-center justify-center shrink-0">
+                <div className="absolute -bottom-3 right-[30px] bg-[var(--bg)] rounded-full pl-5 pr-1.5 py-1.5 shadow-[0_4px_15px_rgba(0,0,0,0.1)] flex items-center gap-2 border border-[color:var(--border)] z-30">
+                  <span className="font-black text-[color:var(--heading)] text-[12px] tracking-[0.2em] uppercase">Read More</span>
+                  <div className="w-5 h-5 rounded-full bg-[var(--accent)] flex items-center justify-center shrink-0">
                     <MoveRight size={10} className="text-white" strokeWidth={3} />
                   </div>
                 </div>
@@ -248,14 +540,10 @@ const SlideRenderer = forwardRef<HTMLDivElement, SlideRendererProps>(({ data, br
     if (style === 'immersive') {
       return (
         <div ref={ref} style={containerStyle} className="shadow-2xl">
-          <img
-            src={data.backgroundImage || "https://images.unsplash.com/photo-1618005182384-a83a8bd57fbe?q=80&w=600&auto=format&fit=crop"}
-            alt="Cover"
-            className="absolute inset-0 w-full h-full object-cover"
-            crossOrigin="anonymous"
-          />
-          {/* Strong Gradient Overlay */}
-          <div className="absolute inset-0 bg-gradient-to-t from-black/95 via-black/40 to-black/10"></div>
+          <CoverImage src={coverImage} adjust={data.backgroundAdjust} className="absolute inset-0">
+            {/* Strong Gradient Overlay */}
+            <div className="absolute inset-0 bg-gradient-to-t from-black/95 via-black/40 to-black/10"></div>
+          </CoverImage>
 
           <div className="absolute top-0 left-0 w-full h-[84px] pt-6 z-10">
             <CoverHeader dark />
@@ -278,10 +566,15 @@ const SlideRenderer = forwardRef<HTMLDivElement, SlideRendererProps>(({ data, br
               </div>
             </div>
 
-            <h1 className="font-black text-white leading-[1.1] mb-4 tracking-tight drop-shadow-2xl whitespace-pre-wrap" style={{ fontSize: `${titleSize}px` }}>
-              {data.title}
-            </h1>
-            <div className="w-16 h-2 bg-rose-500 mb-6 rounded-full"></div>
+            <CoverTitle
+              title={data.title}
+              titleStyle={data.titleStyle}
+              fontSize={titleSize}
+              fitHeight={220}
+              highlight="var(--highlight)"
+              className="[font-family:var(--font-heading)] font-black text-white leading-[1.1] mb-4 tracking-tight drop-shadow-2xl"
+            />
+            <div className="w-16 h-2 bg-[var(--accent)] mb-6 rounded-full"></div>
 
             {data.content[0] && (
               <div className="mb-8 border-l-4 border-white/60 pl-4 py-1">
@@ -301,13 +594,9 @@ const SlideRenderer = forwardRef<HTMLDivElement, SlideRendererProps>(({ data, br
     if (style === 'glass') {
       return (
         <div ref={ref} style={containerStyle} className="shadow-2xl">
-          <img
-            src={data.backgroundImage || "https://images.unsplash.com/photo-1618005182384-a83a8bd57fbe?q=80&w=600&auto=format&fit=crop"}
-            alt="Cover"
-            className="absolute inset-0 w-full h-full object-cover"
-            crossOrigin="anonymous"
-          />
-          <div className="absolute inset-0 bg-black/20"></div>
+          <CoverImage src={coverImage} adjust={data.backgroundAdjust} className="absolute inset-0">
+            <div className="absolute inset-0 bg-black/20"></div>
+          </CoverImage>
 
           <div className="absolute top-0 left-0 w-full h-[84px] pt-6 z-10">
             <CoverHeader dark />
@@ -315,16 +604,21 @@ const SlideRenderer = forwardRef<HTMLDivElement, SlideRendererProps>(({ data, br
 
           <div className="relative z-10 flex-1 flex flex-col items-center justify-center p-8">
             {/* Glass Card */}
-            <div className="w-full bg-white/10 backdrop-blur-xl border border-white/20 p-8 rounded-3xl shadow-2xl flex flex-col items-center text-center">
+            <div className="w-full bg-white/10 backdrop-blur-xl border border-white/20 p-8 rounded-[calc(var(--radius)*3)] shadow-2xl flex flex-col items-center text-center">
               <div className="mb-6">
-                <span className="bg-rose-500 text-white text-[10px] font-black tracking-widest uppercase px-3 py-1 rounded-full">
+                <span className="bg-[var(--accent)] text-white text-[10px] font-black tracking-widest uppercase px-3 py-1 rounded-full">
                   {data.category || 'FEATURED'}
                 </span>
               </div>
 
-              <h1 className="font-black text-white leading-[1.15] mb-4 tracking-tight drop-shadow-lg whitespace-pre-wrap" style={{ fontSize: `${titleSize * 0.9}px` }}>
-                {data.title}
-              </h1>
+              <CoverTitle
+                title={data.title}
+                titleStyle={data.titleStyle}
+                fontSize={titleSize * 0.9}
+                fitHeight={170}
+                highlight="var(--highlight)"
+                className="[font-family:var(--font-heading)] font-black text-white leading-[1.15] mb-4 tracking-tight drop-shadow-lg"
+              />
 
               <div className="w-full h-px bg-gradient-to-r from-transparent via-white/40 to-transparent my-6"></div>
 
@@ -351,17 +645,12 @@ const SlideRenderer = forwardRef<HTMLDivElement, SlideRendererProps>(({ data, br
     // --- 4. FRAME STYLE (Art Gallery Look) ---
     if (style === 'frame') {
       return (
-        <div ref={ref} style={containerStyle} className="shadow-2xl bg-white p-6 flex flex-col">
+        <div ref={ref} style={containerStyle} className="shadow-2xl bg-[var(--bg)] p-6 flex flex-col">
           {/* Inner Frame */}
-          <div className="flex-1 border border-slate-100 flex flex-col relative overflow-hidden bg-slate-50">
+          <div className="flex-1 border border-[color:var(--border)] flex flex-col relative overflow-hidden bg-[var(--surface)]">
             {/* Image Half */}
             <div className="h-[55%] w-full relative overflow-hidden">
-              <img
-                src={data.backgroundImage || "https://images.unsplash.com/photo-1618005182384-a83a8bd57fbe?q=80&w=600&auto=format&fit=crop"}
-                alt="Cover"
-                className="w-full h-full object-cover transition-transform hover:scale-105 duration-700"
-                crossOrigin="anonymous"
-              />
+              <CoverImage src={coverImage} adjust={data.backgroundAdjust} className="absolute inset-0" />
               <div className="absolute top-4 left-4">
                 <div className="bg-white/90 backdrop-blur text-slate-900 px-3 py-1 text-xs font-bold border border-slate-100 uppercase tracking-wider">
                   {data.category || 'COVER STORY'}
@@ -370,27 +659,32 @@ const SlideRenderer = forwardRef<HTMLDivElement, SlideRendererProps>(({ data, br
             </div>
 
             {/* Content Half */}
-            <div className="flex-1 bg-white p-8 flex flex-col justify-center relative">
+            <div className="flex-1 bg-[var(--bg)] p-8 flex flex-col justify-center relative">
               {/* Decorative Number Removed for cleaner look */}
 
-              <h1 className="font-black text-slate-900 leading-[1.1] mb-4 tracking-tighter whitespace-pre-wrap relative z-10" style={{ fontSize: `${titleSize}px` }}>
-                {data.title}
-              </h1>
+              <CoverTitle
+                title={data.title}
+                titleStyle={data.titleStyle}
+                fontSize={titleSize}
+                fitHeight={150}
+                highlight="var(--accent)"
+                className="[font-family:var(--font-heading)] font-black text-[color:var(--heading)] leading-[1.1] mb-4 tracking-tighter relative z-10"
+              />
 
-              <div className="w-12 h-1 bg-slate-900 mb-6"></div>
+              <div className="w-12 h-1 bg-[var(--heading)] mb-6"></div>
 
-              <p className="text-slate-500 font-medium text-sm leading-relaxed mb-6">
+              <p className="text-[color:var(--muted)] font-medium text-sm leading-relaxed mb-6">
                 {data.subtitle || data.content[0]}
               </p>
 
-              <div className="mt-auto flex justify-between items-end border-t border-slate-100 pt-4">
+              <div className="mt-auto flex justify-between items-end border-t border-[color:var(--border)] pt-4">
                 <div className="flex flex-col">
-                  <span className="text-[10px] text-slate-400 font-bold uppercase tracking-wider">Created By</span>
-                  <span className="text-xs font-black text-slate-900">{branding.brandName}</span>
+                  <span className="text-[10px] text-[color:var(--muted)] font-bold uppercase tracking-wider">Created By</span>
+                  <span className="text-xs font-black text-[color:var(--heading)]">{branding.brandName}</span>
                 </div>
                 <div className="flex gap-2">
                   {data.tags?.slice(0, 2).map((tag, i) => (
-                    <span key={i} className="text-[10px] bg-slate-100 text-slate-600 px-2 py-1 rounded font-bold">#{tag}</span>
+                    <span key={i} className="text-[10px] bg-[var(--surface)] text-[color:var(--text)] px-2 py-1 rounded font-bold">#{tag}</span>
                   ))}
                 </div>
               </div>
@@ -400,26 +694,315 @@ const SlideRenderer = forwardRef<HTMLDivElement, SlideRendererProps>(({ data, br
       );
     }
 
+    // --- 5. POSTER STYLE (大字报, Type Only) ---
+    if (style === 'poster') {
+      return (
+        <div ref={ref} style={{ ...containerStyle, backgroundColor: 'var(--accent)' }} className="shadow-2xl">
+          <div className="absolute -right-6 -bottom-16 text-[260px] leading-none font-black text-white/10 select-none pointer-events-none">“</div>
+
+          <div className="h-[84px] pt-6 shrink-0 z-10">
+            <CoverHeader dark />
+          </div>
+
+          <div className="relative z-10 flex-1 flex flex-col px-8 pt-4 min-h-0">
+            {data.category && (
+              <span className="self-start bg-[var(--bg)] text-[color:var(--accent)] text-sm font-black px-3 py-1 mb-5 -rotate-2 shadow-md">{data.category}</span>
+            )}
+            <CoverTitle
+              title={data.title}
+              titleStyle={data.titleStyle}
+              fontSize={Math.round(titleSize * 1.35)}
+              fitHeight={260}
+              highlight="var(--highlight)"
+              className="[font-family:var(--font-heading)] font-black text-white leading-[1.05] tracking-tighter"
+            />
+            {data.subtitle && <p className="mt-4 text-white/85 text-[15px] font-bold tracking-wide line-clamp-2">{data.subtitle}</p>}
+
+            <div className="mt-auto">
+              {data.content[0] && (
+                <p className="bg-[var(--heading)] text-white font-bold text-[16px] leading-relaxed px-4 py-3 shadow-lg">{data.content[0]}</p>
+              )}
+              <div className="flex flex-wrap gap-x-3 gap-y-1 mt-3">
+                {data.tags?.map((tag, i) => (
+                  <span key={i} className="text-white/80 text-xs font-black">#{tag}</span>
+                ))}
+              </div>
+            </div>
+          </div>
+
+          <Footer light />
+        </div>
+      );
+    }
+
+    // --- 6. NOTE STYLE (Sticky Note + Taped Photo) ---
+    if (style === 'note') {
+      return (
+        <div ref={ref} style={{ ...containerStyle, backgroundImage: 'radial-gradient(var(--border) 1.5px, transparent 1.5px)', backgroundSize: '18px 18px' }} className="shadow-2xl">
+          <div className="h-[84px] pt-6 shrink-0">
+            <CoverHeader />
+          </div>
+
+          <div className="relative flex-1 flex flex-col px-8 pt-2 min-h-0">
+            {/* Taped Photo */}
+            <div className="absolute right-7 top-0 w-[132px] bg-white p-2 pb-5 shadow-lg rotate-[5deg]">
+              <CoverImage src={coverImage} adjust={data.backgroundAdjust} className="relative w-full aspect-square" />
+              <span className="absolute -top-3 left-1/2 -ml-8 w-16 h-5 bg-[var(--accent-muted)] opacity-80 -rotate-3"></span>
+            </div>
+
+            {/* Sticky Note */}
+            <div className="relative z-10 mt-[72px] w-[86%] bg-[var(--highlight)] px-6 pt-6 pb-5 shadow-[0_12px_25px_rgba(0,0,0,0.12)] -rotate-2">
+              {data.category && (
+                <div className="flex items-center gap-1 text-[color:var(--accent)] text-xs font-bold mb-2"><Bookmark size={12} strokeWidth={3} />{data.category}</div>
+              )}
+              <CoverTitle
+                title={data.title}
+                titleStyle={data.titleStyle}
+                fontSize={Math.round(titleSize * 0.85)}
+                fitHeight={150}
+                highlight="var(--accent)"
+                className="font-bold text-[color:var(--heading)] leading-[1.2]"
+                style={{ fontFamily: HANDWRITING_FONT }}
+              />
+              {data.subtitle && <p className="mt-3 text-[13px] text-[color:var(--text)] font-medium line-clamp-2">{data.subtitle}</p>}
+            </div>
+
+            {data.content[0] && (
+              <div className="self-end relative z-10 mt-5 w-[72%] bg-[var(--bg)] border border-[color:var(--border)] px-4 py-3 shadow-md rotate-[1.5deg]">
+                <span className="absolute -top-2 left-1/2 -ml-2 w-4 h-4 rounded-full bg-[var(--accent)] shadow"></span>
+                <p className="text-[16px] font-bold text-[color:var(--heading)] leading-relaxed" style={{ fontFamily: HANDWRITING_FONT }}>{data.content[0]}</p>
+              </div>
+            )}
+
+            <div className="mt-auto flex flex-wrap gap-x-3 gap-y-1 pt-3 text-[color:var(--accent)] text-[15px] font-bold" style={{ fontFamily: HANDWRITING_FONT }}>
+              {data.tags?.map((tag, i) => <span key={i}>#{tag}</span>)}
+            </div>
+          </div>
+
+          <Footer centered />
+        </div>
+      );
+    }
+
+    // --- 7. MAGAZINE STYLE (Image Column + Masthead) ---
+    if (style === 'magazine') {
+      return (
+        <div ref={ref} style={{ ...containerStyle, flexDirection: 'row' }} className="shadow-2xl">
+          <div className="w-[46%] relative shrink-0">
+            <CoverImage src={coverImage} adjust={data.backgroundAdjust} className="absolute inset-0">
+              <div className="absolute inset-0 bg-gradient-to-t from-black/60 via-transparent to-transparent"></div>
+            </CoverImage>
+            {data.category && (
+              <div className="absolute bottom-6 left-5 right-5 z-10 text-white text-xs font-black tracking-[0.2em] uppercase border-t border-white/60 pt-2">{data.category}</div>
+            )}
+          </div>
+
+          <div className="flex-1 min-w-0 flex flex-col px-6 pt-7">
+            {/* Masthead */}
+            <div className="border-b-4 border-[color:var(--heading)] pb-2 h-[42px] flex items-end">
+              {branding.logoUrl ? (
+                <img src={branding.logoUrl} alt="Logo" className="h-[28px] w-auto max-w-full object-contain" crossOrigin="anonymous" />
+              ) : (
+                <span className="[font-family:var(--font-heading)] font-black text-[26px] leading-none tracking-tighter text-[color:var(--heading)] uppercase truncate">{branding.logoText}</span>
+              )}
+            </div>
+            <div className="mt-1.5 mb-6 text-[9px] font-bold uppercase tracking-widest text-[color:var(--muted)] truncate">{branding.brandName}</div>
+
+            <CoverTitle
+              title={data.title}
+              titleStyle={data.titleStyle}
+              fontSize={Math.round(titleSize * 0.75)}
+              fitHeight={190}
+              highlight="var(--accent)"
+              className="[font-family:var(--font-heading)] font-black text-[color:var(--heading)] leading-[1.12] tracking-tight"
+            />
+            <div className="w-10 h-1 bg-[var(--accent)] my-4 shrink-0"></div>
+            {data.subtitle && <p className="text-[11px] font-bold uppercase tracking-[0.15em] text-[color:var(--muted)] leading-relaxed line-clamp-3">{data.subtitle}</p>}
+            {data.content[0] && (
+              <p className="mt-5 text-[15px] font-bold italic leading-relaxed text-[color:var(--text)] border-l-2 border-[color:var(--accent)] pl-3">{data.content[0]}</p>
+            )}
+
+            <div className="mt-auto pb-6 pt-4">
+              <span className="block text-[10px] font-black uppercase tracking-widest text-[color:var(--accent)] mb-1">Inside</span>
+              {data.tags?.slice(0, 4).map((tag, i) => (
+                <div key={i} className="text-xs font-bold text-[color:var(--heading)] py-1 border-t border-[color:var(--border)] truncate">#{tag}</div>
+              ))}
+            </div>
+          </div>
+        </div>
+      );
+    }
+
+    // --- 8. COLLAGE STYLE (Image Grid) ---
+    if (style === 'collage') {
+      const [main, ...others] = collageImageSrcs(data, branding);
+      return (
+        <div ref={ref} style={containerStyle} className="shadow-2xl">
+          <div className="h-[84px] pt-6 shrink-0">
+            <CoverHeader />
+          </div>
+
+          <div className="px-6 grid grid-cols-4 grid-rows-2 gap-2 h-[232px] shrink-0">
+            <CoverImage src={main} adjust={data.backgroundAdjust} className="relative col-span-2 row-span-2 rounded-[var(--radius)]" />
+            {others.map((src, i) => (
+              <CoverImage key={i} src={src} className={`relative rounded-[var(--radius)] ${i === 0 ? 'col-span-2' : ''}`} />
+            ))}
+          </div>
+
+          <div className="flex-1 flex flex-col px-8 pt-5 min-h-0">
+            <div className="flex flex-wrap gap-2 mb-3">
+              {data.category && (
+                <span className="flex items-center gap-1 bg-[var(--accent)] text-white px-2.5 py-1 rounded-[var(--radius)] text-[11px] font-bold"><Bookmark size={11} strokeWidth={3} />{data.category}</span>
+              )}
+              {data.tags?.map((tag, i) => (
+                <span key={i} className="bg-[var(--surface)] text-[color:var(--text)] px-2.5 py-1 rounded-[var(--radius)] text-[11px] font-bold">#{tag}</span>
+              ))}
+            </div>
+            <CoverTitle
+              title={data.title}
+              titleStyle={data.titleStyle}
+              fontSize={Math.round(titleSize * 0.8)}
+              fitHeight={100}
+              highlight="var(--accent)"
+              className="[font-family:var(--font-heading)] font-black text-[color:var(--heading)] leading-[1.15] tracking-tight"
+            />
+            {data.subtitle && <p className="mt-2 text-[14px] text-[color:var(--muted)] font-bold line-clamp-1">{data.subtitle}</p>}
+            {data.content[0] && (
+              <p className="mt-auto mb-1 bg-[var(--accent-soft)] text-[color:var(--heading)] font-bold text-[15px] leading-relaxed px-4 py-2.5 rounded-[calc(var(--radius)*2)]">“{data.content[0]}”</p>
+            )}
+          </div>
+
+          <Footer centered />
+        </div>
+      );
+    }
+
+    // --- 9. CHECKLIST STYLE (Ticked Tags Preview) ---
+    if (style === 'checklist') {
+      const items = data.tags?.length ? data.tags.slice(0, 4) : [data.subtitle || ''].filter(Boolean);
+      return (
+        <div ref={ref} style={containerStyle} className="shadow-2xl">
+          <div className="h-[84px] pt-6 shrink-0">
+            <CoverHeader />
+          </div>
+
+          <div className="flex-1 flex flex-col px-8 min-h-0">
+            <div className="flex items-start gap-4">
+              <div className="flex-1 min-w-0">
+                {data.category && (
+                  <span className="inline-block bg-[var(--accent-soft)] text-[color:var(--accent)] border border-[color:var(--accent-muted)] px-2.5 py-1 rounded-[var(--radius)] text-[11px] font-bold mb-3">{data.category}</span>
+                )}
+                <CoverTitle
+                  title={data.title}
+                  titleStyle={data.titleStyle}
+                  fontSize={Math.round(titleSize * 0.85)}
+                  fitHeight={130}
+                  highlight="var(--accent)"
+                  className="[font-family:var(--font-heading)] font-black text-[color:var(--heading)] leading-[1.15] tracking-tight"
+                />
+              </div>
+              <CoverImage src={coverImage} adjust={data.backgroundAdjust} className="relative w-[96px] h-[96px] shrink-0 mt-1 rounded-[calc(var(--radius)*2)] shadow-md" />
+            </div>
+            {data.subtitle && data.tags?.length ? <p className="mt-3 text-[14px] text-[color:var(--muted)] font-bold line-clamp-1">{data.subtitle}</p> : null}
+
+            <div className="mt-5 bg-[var(--surface)] border border-[color:var(--border)] rounded-[calc(var(--radius)*2)] px-5 py-1">
+              {items.map((item, i) => (
+                <div key={i} className="flex items-center gap-3 py-3 border-b border-dashed border-[color:var(--border)] last:border-b-0">
+                  <span className="shrink-0 w-[22px] h-[22px] rounded-md bg-[var(--accent)] flex items-center justify-center">
+                    <Check size={14} strokeWidth={4} className="text-white" />
+                  </span>
+                  <span className="text-[16px] font-bold text-[color:var(--heading)] truncate">{item}</span>
+                </div>
+              ))}
+            </div>
+
+            {data.content[0] && (
+              <p className="mt-auto mb-1 text-center text-[15px] font-bold text-[color:var(--text)] leading-relaxed">“{data.content[0]}”</p>
+            )}
+          </div>
+
+          <Footer centered />
+        </div>
+      );
+    }
+
     return null; // Should not happen
   };
 
+  // --- PROMO (Closing Call-To-Action) ---
+  const renderPromo = () => (
+    <div ref={ref} style={containerStyle} className="shadow-xl border border-[color:var(--border)]">
+      <ContentHeader />
+      <div className="flex-1 px-12 pt-10 relative flex flex-col items-center text-center bg-[var(--bg)] overflow-hidden">
+        <div className="h-[56px] flex items-center justify-center mb-6">
+          {branding.logoUrl ? (
+            <img src={branding.logoUrl} alt="Brand Logo" className="h-full w-auto object-contain max-w-[200px]" crossOrigin="anonymous" />
+          ) : (
+            <span className="font-black text-2xl tracking-tight text-[color:var(--heading)] border-2 border-[color:var(--heading)] px-2">
+              {branding.logoText}
+            </span>
+          )}
+        </div>
+
+        <h2 className="[font-family:var(--font-heading)] text-[28px] font-black text-[color:var(--heading)] leading-tight tracking-tight mb-3 whitespace-pre-wrap">
+          {data.promoHeadline || '觉得有用就关注我吧'}
+        </h2>
+        <div className="w-12 h-1.5 bg-[var(--accent)] rounded-full mb-6"></div>
+
+        {data.promoQrCode ? (
+          <div className="flex flex-col items-center mb-6">
+            <div className="p-2 bg-[#ffffff] border border-[color:var(--border)] rounded-[calc(var(--radius)*1.5)] shadow-sm">
+              <img src={data.promoQrCode} alt="QR Code" className="w-[120px] h-[120px] object-contain" crossOrigin="anonymous" />
+            </div>
+            <span className="mt-2 text-[11px] font-bold text-[color:var(--muted)] tracking-widest flex items-center gap-1">
+              <ScanLine size={12} /> 扫码关注
+            </span>
+          </div>
+        ) : null}
+
+        <div className="text-[16px] font-black text-[color:var(--heading)] mb-6">
+          {data.promoHandle || branding.brandName}
+        </div>
+
+        <div className="mt-auto mb-4 w-full flex justify-center gap-3">
+          <div className="flex items-center gap-1.5 bg-[var(--accent)] text-white px-4 py-2 rounded-full text-sm font-bold">
+            <Star size={14} strokeWidth={3} /><span>收藏</span>
+          </div>
+          <div className="flex items-center gap-1.5 bg-[var(--heading)] text-[color:var(--bg)] px-4 py-2 rounded-full text-sm font-bold">
+            <UserPlus size={14} strokeWidth={3} /><span>关注</span>
+          </div>
+        </div>
+        {data.promoCta && (
+          <p className="text-[color:var(--muted)] text-[13px] font-bold tracking-wide mb-2">{data.promoCta}</p>
+        )}
+      </div>
+      <Footer centered />
+    </div>
+  );
+
   if (data.type === 'cover') {
     return renderCover();
   }
 
+  if (data.type === 'promo') {
+    return renderPromo();
+  }
+
   // CONTENT LAYOUT
+  const layout = data.contentLayout || 'text';
   return (
-    <div ref={ref} style={containerStyle} className="shadow-xl border border-slate-100">
+    <div ref={ref} style={containerStyle} className="shadow-xl border border-[color:var(--border)]">
       <ContentHeader />
-      <div className="flex-1 px-12 pt-6 overflow-hidden relative flex flex-col bg-white">
+      {/* data-slide-body / data-slide-flow are read by services/pagination to measure overflow */}
+      <div data-slide-body className="flex-1 px-12 pt-6 overflow-hidden relative flex flex-col bg-[var(--bg)]">
+        {/* Plain text pages carry their headings in the content; designed layouts show the page title */}
         {data.title && (
-          <div className="shrink-0 mb-6 hidden">
-            <h2 className="text-[24px] font-black text-slate-900 leading-[1.2] tracking-tight">{data.title}</h2>
+          <div className={`shrink-0 mb-6 ${layout === 'text' ? 'hidden' : ''}`}>
+            <h2 className="[font-family:var(--font-heading)] text-[24px] font-black text-[color:var(--heading)] leading-[1.2] tracking-tight">{data.title}</h2>
+            <div className="w-12 h-1.5 bg-[var(--accent)] mt-2 rounded-full"></div>
           </div>
         )}
-        <div className="w-full">
-          {data.content.map((paragraph, idx) => renderParagraph(paragraph, idx))}
-        </div>
+        {renderLayoutFlow(layout)}
       </div>
       <Footer pageInfo />
     </div>
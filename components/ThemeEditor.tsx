@@ -0,0 +1,104 @@
+import React from 'react';
+import { Check, Palette } from 'lucide-react';
+import { Theme } from '../types';
+import { THEME_COLORS, THEME_FONTS, THEME_PRESETS } from '../services/theme';
+
+interface ThemeEditorProps {
+  theme: Theme;
+  // Edits of one control share a coalesceKey so dragging a color picker is one undo step
+  onChange: (label: string, theme: Theme, coalesceKey?: string) => void;
+}
+
+const ThemeEditor: React.FC<ThemeEditorProps> = ({ theme, onChange }) => {
+  // Any manual edit detaches the theme from its preset
+  const update = (label: string, patch: Partial<Theme>, coalesceKey: string) => {
+    onChange(label, { ...theme, ...patch, presetId: undefined }, coalesceKey);
+  };
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <label className="text-xs text-slate-500 font-semibold uppercase flex items-center gap-1 mb-2">
+          <Palette size={12} /> Theme Presets
+        </label>
+        <div className="grid grid-cols-3 gap-2">
+          {THEME_PRESETS.map(preset => {
+            const active = theme.presetId === preset.id;
+            return (
+              <button
+                key={preset.id}
+                onClick={() => onChange(`Apply ${preset.label} theme`, preset.theme)}
+                className={`p-2 rounded-lg border text-left transition-all ${active ? 'border-slate-900 ring-1 ring-slate-900' : 'border-slate-200 hover:border-slate-300'}`}
+                style={{ backgroundColor: preset.theme.background }}
+              >
+                <div className="flex gap-1 mb-1.5">
+                  {[preset.theme.accent, preset.theme.heading, preset.theme.highlight].map((color, i) => (
+                    <span key={i} className="w-3 h-3 rounded-full border border-black/10" style={{ backgroundColor: color }} />
+                  ))}
+                </div>
+                <span className="text-[10px] font-bold flex items-center gap-1" style={{ color: preset.theme.heading }}>
+                  {preset.label}
+                  {active && <Check size={10} />}
+                </span>
+              </button>
+            );
+          })}
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 gap-x-3 gap-y-2">
+        {THEME_COLORS.map(({ key, label }) => (
+          <label key={key} className="flex items-center gap-2 text-xs text-slate-600">
+            <input
+              type="color"
+              value={theme[key]}
+              onChange={(e) => update(`Change ${label.toLowerCase()} color`, { [key]: e.target.value }, `theme:${key}`)}
+              className="w-7 h-7 p-0 border border-slate-200 rounded cursor-pointer bg-transparent"
+            />
+            <span className="truncate">{label}</span>
+          </label>
+        ))}
+      </div>
+
+      <div className="grid grid-cols-2 gap-3">
+        <div>
+          <label className="text-xs text-slate-500 font-semibold uppercase">Heading Font</label>
+          <select
+            value={theme.headingFont}
+            onChange={(e) => update('Change heading font', { headingFont: e.target.value }, 'theme:headingFont')}
+            className="w-full mt-1 p-2 bg-slate-50 border rounded text-xs"
+          >
+            {THEME_FONTS.map(font => <option key={font.value} value={font.value}>{font.label}</option>)}
+          </select>
+        </div>
+        <div>
+          <label className="text-xs text-slate-500 font-semibold uppercase">Body Font</label>
+          <select
+            value={theme.bodyFont}
+            onChange={(e) => update('Change body font', { bodyFont: e.target.value }, 'theme:bodyFont')}
+            className="w-full mt-1 p-2 bg-slate-50 border rounded text-xs"
+          >
+            {THEME_FONTS.map(font => <option key={font.value} value={font.value}>{font.label}</option>)}
+          </select>
+        </div>
+      </div>
+
+      <div>
+        <label className="text-xs text-slate-500 font-semibold uppercase flex justify-between">
+          <span>Corner Radius</span>
+          <span className="font-mono">{theme.radius}px</span>
+        </label>
+        <input
+          type="range"
+          min={0}
+          max={32}
+          value={theme.radius}
+          onChange={(e) => update('Change corner radius', { radius: Number(e.target.value) }, 'theme:radius')}
+          className="w-full accent-rose-500"
+        />
+      </div>
+    </div>
+  );
+};
+
+export default ThemeEditor;
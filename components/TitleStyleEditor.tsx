@@ -0,0 +1,148 @@
+import React from 'react';
+import { TitleAlign, TitleStyle } from '../types';
+import { highlightedWords, isTitleStyled, TITLE_ALIGNS, TITLE_FONTS, TITLE_RANGES } from '../services/titleStyle';
+import { RotateCcw, AlignLeft, AlignCenter, AlignRight } from 'lucide-react';
+
+interface TitleStyleEditorProps {
+  title: string;
+  titleStyle: TitleStyle;
+  onChange: (titleStyle: TitleStyle | undefined) => void; // undefined = back to the cover style's look
+}
+
+const ALIGN_ICONS: Record<TitleAlign, any> = {
+  left: AlignLeft,
+  center: AlignCenter,
+  right: AlignRight,
+};
+
+// Typography controls for a cover title. Highlighted words are marked ==like this== in the title itself.
+const TitleStyleEditor: React.FC<TitleStyleEditorProps> = ({ title, titleStyle, onChange }) => {
+  const update = (patch: TitleStyle) => onChange({ ...titleStyle, ...patch });
+  const words = highlightedWords(title);
+
+  const setHighlightColor = (index: number, color: string) => {
+    const colors = Array.from({ length: words.length }, (_, i) => titleStyle.highlightColors?.[i] || '');
+    colors[index] = color;
+    update({ highlightColors: colors });
+  };
+
+  const renderSlider = (field: keyof typeof TITLE_RANGES, label: string, format: (value: number) => string) => {
+    const range = TITLE_RANGES[field];
+    const value = titleStyle[field] ?? range.default;
+    return (
+      <div className="flex items-center gap-2">
+        <span className="w-16 shrink-0 text-[10px] font-bold text-slate-500 uppercase">{label}</span>
+        <input
+          type="range"
+          min={range.min}
+          max={range.max}
+          step={range.step}
+          value={value}
+          onChange={(e) => update({ [field]: Number(e.target.value) })}
+          className="flex-1 accent-rose-500"
+        />
+        <span className="w-12 shrink-0 text-right text-[10px] font-mono text-slate-500">{format(value)}</span>
+      </div>
+    );
+  };
+
+  return (
+    <div className="bg-slate-50 p-3 rounded border border-slate-100 space-y-3">
+      <div className="flex justify-between items-center">
+        <span className="text-[10px] text-slate-500 font-semibold uppercase">Title typography</span>
+        <button
+          onClick={() => onChange(undefined)}
+          disabled={!isTitleStyled(titleStyle)}
+          className="text-[10px] font-bold text-slate-400 hover:text-slate-700 disabled:opacity-40 flex items-center gap-1"
+          title="Reset title typography"
+        >
+          <RotateCcw size={10} /> Reset
+        </button>
+      </div>
+
+      <div className="flex items-center gap-2">
+        <span className="w-16 shrink-0 text-[10px] font-bold text-slate-500 uppercase">Font</span>
+        <select
+          value={titleStyle.font || ''}
+          onChange={(e) => update({ font: e.target.value || undefined })}
+          className="flex-1 min-w-0 p-1.5 text-xs border rounded bg-white"
+        >
+          <option value="">Theme heading font</option>
+          {TITLE_FONTS.map(font => (
+            <option key={font.value} value={font.value}>{font.label}</option>
+          ))}
+        </select>
+      </div>
+
+      <div className="flex items-center gap-2">
+        <span className="w-16 shrink-0 text-[10px] font-bold text-slate-500 uppercase">Align</span>
+        <div className="flex-1 grid grid-cols-4 gap-1">
+          <button
+            onClick={() => update({ align: undefined })}
+            className={`py-1 rounded border text-[10px] font-bold transition-colors ${!titleStyle.align ? 'border-rose-500 bg-rose-50 text-rose-700' : 'border-slate-200 text-slate-500 hover:border-slate-300 bg-white'}`}
+            title="Use the cover style's alignment"
+          >
+            Style
+          </button>
+          {TITLE_ALIGNS.map(align => {
+            const Icon = ALIGN_ICONS[align];
+            return (
+              <button
+                key={align}
+                onClick={() => update({ align })}
+                className={`py-1 rounded border flex justify-center transition-colors ${titleStyle.align === align ? 'border-rose-500 bg-rose-50 text-rose-700' : 'border-slate-200 text-slate-500 hover:border-slate-300 bg-white'}`}
+              >
+                <Icon size={12} />
+              </button>
+            );
+          })}
+        </div>
+      </div>
+
+      {renderSlider('letterSpacing', 'Spacing', v => `${v.toFixed(2)}em`)}
+
+      <div className="flex items-center gap-2">
+        <span className="w-16 shrink-0 text-[10px] font-bold text-slate-500 uppercase">Outline</span>
+        <input
+          type="color"
+          value={titleStyle.strokeColor || '#000000'}
+          onChange={(e) => update({ strokeColor: e.target.value, strokeWidth: titleStyle.strokeWidth || 2 })}
+          className="w-7 h-7 shrink-0 p-0 border rounded cursor-pointer"
+        />
+        <input
+          type="range"
+          min={TITLE_RANGES.strokeWidth.min}
+          max={TITLE_RANGES.strokeWidth.max}
+          step={TITLE_RANGES.strokeWidth.step}
+          value={titleStyle.strokeWidth ?? TITLE_RANGES.strokeWidth.default}
+          onChange={(e) => update({ strokeWidth: Number(e.target.value) })}
+          className="flex-1 accent-rose-500"
+        />
+        <span className="w-12 shrink-0 text-right text-[10px] font-mono text-slate-500">{titleStyle.strokeWidth ?? 0}px</span>
+      </div>
+
+      <div>
+        <span className="block mb-1 text-[10px] font-bold text-slate-500 uppercase">Highlighted words</span>
+        {words.length === 0 ? (
+          <p className="text-[11px] text-slate-400">Select words in the title and click Highlight, or type ==word==.</p>
+        ) : (
+          <div className="flex flex-wrap gap-2">
+            {words.map((word, i) => (
+              <label key={i} className="flex items-center gap-1 bg-white border border-slate-200 rounded px-1.5 py-1 text-[11px] font-bold text-slate-600 cursor-pointer">
+                <input
+                  type="color"
+                  value={titleStyle.highlightColors?.[i] || '#f43f5e'}
+                  onChange={(e) => setHighlightColor(i, e.target.value)}
+                  className="w-5 h-5 p-0 border rounded cursor-pointer"
+                />
+                <span className="max-w-[120px] truncate">{word}</span>
+              </label>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default TitleStyleEditor;
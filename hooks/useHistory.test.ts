@@ -0,0 +1,64 @@
+import { describe, expect, it } from 'vitest';
+import { HistoryState, historyReducer } from './useHistory';
+
+// --- FIXTURES ---
+
+const start = (): HistoryState<number> => ({ past: [], present: { label: 'Opened', state: 0, timestamp: 0 }, future: [] });
+
+const commitMany = (history: HistoryState<number>, count: number) => {
+  for (let i = 0; i < count; i++) {
+    history = historyReducer(history, { type: 'commit', label: 'Edit', updater: n => n + 1 });
+  }
+  return history;
+};
+
+// --- RESTORE ---
+
+describe('historyReducer restore', () => {
+  it('returns to a saved entry and keeps later entries as redo', () => {
+    const before = commitMany(start(), 3);
+    const saved = before.present;
+    const after = commitMany(before, 2);
+
+    const restored = historyReducer(after, { type: 'restore', entry: saved });
+    expect(restored.present.state).toBe(3);
+    expect(restored.past).toHaveLength(3);
+    expect(restored.future.map(entry => entry.state)).toEqual([4, 5]);
+  });
+
+  it('finds the saved entry after the past was trimmed', () => {
+    const before = commitMany(start(), 120);
+    const saved = before.present;
+    const after = commitMany(before, 30);
+    expect(after.past).toHaveLength(100);
+
+    const restored = historyReducer(after, { type: 'restore', entry: saved });
+    expect(restored.present.state).toBe(120);
+    expect(restored.future.map(entry => entry.state)).toEqual(Array.from({ length: 30 }, (_, i) => 121 + i));
+  });
+
+  it('restores a saved entry that was trimmed away', () => {
+    const before = commitMany(start(), 5);
+    const saved = before.present;
+    const after = commitMany(before, 150);
+    expect(after.past.some(entry => entry.state === saved.state)).toBe(false);
+
+    const restored = historyReducer(after, { type: 'restore', entry: saved });
+    expect(restored.present.state).toBe(5);
+    expect(restored.past).toEqual([]);
+    expect(restored.future).toHaveLength(101);
+    expect(restored.future[restored.future.length - 1].state).toBe(155);
+  });
+
+  it('finds the saved entry after undo and redo copied it', () => {
+    const before = commitMany(start(), 2);
+    const saved = before.present;
+    let history = commitMany(before, 1);
+    history = historyReducer(history, { type: 'undo' });
+    history = historyReducer(history, { type: 'redo' });
+
+    const restored = historyReducer(history, { type: 'restore', entry: saved });
+    expect(restored.present.state).toBe(2);
+    expect(restored.future.map(entry => entry.state)).toEqual([3]);
+  });
+});
@@ -0,0 +1,146 @@
+import { useCallback, useReducer } from 'react';
+
+// --- CONFIGURATION ---
+
+const MAX_HISTORY = 100;
+const COALESCE_WINDOW_MS = 1000; // Keystrokes on the same field within this window merge into one entry
+
+export interface HistoryEntry<T> {
+  label: string; // Shown in the history list, e.g. "Edit paragraph"
+  state: T;
+  timestamp: number;
+  coalesceKey?: string;
+}
+
+export interface HistoryState<T> {
+  past: HistoryEntry<T>[];
+  present: HistoryEntry<T>;
+  future: HistoryEntry<T>[];
+}
+
+type HistoryAction<T> =
+  | { type: 'commit'; label: string; updater: (prev: T) => T; coalesceKey?: string; coalesceWindowMs?: number }
+  | { type: 'undo' }
+  | { type: 'redo' }
+  | { type: 'jump'; index: number }
+  | { type: 'restore'; entry: HistoryEntry<T> }
+  | { type: 'reset'; state: T; label: string };
+
+export interface CommitOptions {
+  coalesceKey?: string; // Consecutive commits with the same key (e.g. "slide-1:title") coalesce
+  coalesceWindowMs?: number; // Defaults to COALESCE_WINDOW_MS; Infinity keeps a long-running operation in one entry
+}
+
+export const historyReducer = <T,>(history: HistoryState<T>, action: HistoryAction<T>): HistoryState<T> => {
+  switch (action.type) {
+    case 'commit': {
+      const next = action.updater(history.present.state);
+      if (next === history.present.state) return history;
+
+      const now = Date.now();
+      const { present } = history;
+      const canCoalesce = action.coalesceKey !== undefined
+        && present.coalesceKey === action.coalesceKey
+        && now - present.timestamp < (action.coalesceWindowMs ?? COALESCE_WINDOW_MS)
+        && history.future.length === 0;
+
+      if (canCoalesce) {
+        return { ...history, present: { ...present, state: next, timestamp: now } };
+      }
+
+      return {
+        past: [...history.past, present].slice(-MAX_HISTORY),
+        present: { label: action.label, state: next, timestamp: now, coalesceKey: action.coalesceKey },
+        future: [],
+      };
+    }
+    case 'undo': {
+      if (history.past.length === 0) return history;
+      const previous = history.past[history.past.length - 1];
+      return {
+        past: history.past.slice(0, -1),
+        present: { ...previous, coalesceKey: undefined }, // Never coalesce into a restored entry
+        future: [history.present, ...history.future],
+      };
+    }
+    case 'redo': {
+      if (history.future.length === 0) return history;
+      const [next, ...rest] = history.future;
+      return {
+        past: [...history.past, history.present],
+        present: { ...next, coalesceKey: undefined },
+        future: rest,
+      };
+    }
+    case 'jump': {
+      const entries = [...history.past, history.present, ...history.future];
+      if (action.index < 0 || action.index >= entries.length || action.index === history.past.length) return history;
+      return {
+        past: entries.slice(0, action.index),
+        present: { ...entries[action.index], coalesceKey: undefined },
+        future: entries.slice(action.index + 1),
+      };
+    }
+    case 'restore': {
+      // Found by state, since undo/redo copy entries; survives the past being trimmed to MAX_HISTORY
+      const entries = [...history.past, history.present, ...history.future];
+      const index = entries.findIndex(entry => entry.state === action.entry.state);
+      if (index === history.past.length) return history;
+      if (index === -1) {
+        // Trimmed away: it is older than everything left, so the rest becomes redo
+        return { past: [], present: { ...action.entry, coalesceKey: undefined }, future: entries };
+      }
+      return {
+        past: entries.slice(0, index),
+        present: { ...entries[index], coalesceKey: undefined },
+        future: entries.slice(index + 1),
+      };
+    }
+    case 'reset':
+      return {
+        past: [],
+        present: { label: action.label, state: action.state, timestamp: Date.now() },
+        future: [],
+      };
+    default:
+      return history;
+  }
+};
+
+/**
+ * Snapshot-based undo/redo over an immutable document.
+ * Every mutation goes through `commit` with a human readable label.
+ */
+export const useHistory = <T,>(initialState: T, initialLabel = 'Opened') => {
+  const [history, dispatch] = useReducer(
+    historyReducer as (h: HistoryState<T>, a: HistoryAction<T>) => HistoryState<T>,
+    undefined,
+    () => ({ past: [], present: { label: initialLabel, state: initialState, timestamp: Date.now() }, future: [] })
+  );
+
+  const commit = useCallback((label: string, updater: (prev: T) => T, options: CommitOptions = {}) => {
+    dispatch({ type: 'commit', label, updater, coalesceKey: options.coalesceKey, coalesceWindowMs: options.coalesceWindowMs });
+  }, []);
+
+  const undo = useCallback(() => dispatch({ type: 'undo' }), []);
+  const redo = useCallback(() => dispatch({ type: 'redo' }), []);
+  const jumpTo = useCallback((index: number) => dispatch({ type: 'jump', index }), []);
+  // Returns to an entry saved from `currentEntry`, wherever it has moved since
+  const restore = useCallback((entry: HistoryEntry<T>) => dispatch({ type: 'restore', entry }), []);
+  const reset = useCallback((state: T, label = initialLabel) => dispatch({ type: 'reset', state, label }), [initialLabel]);
+
+  return {
+    state: history.present.state,
+    entries: [...history.past, history.present, ...history.future],
+    currentIndex: history.past.length,
+    currentEntry: history.present,
+    canUndo: history.past.length > 0,
+    canRedo: history.future.length > 0,
+    commit,
+    undo,
+    redo,
+    jumpTo,
+    restore,
+    reset,
+  };
+};
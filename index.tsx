@@ -1,6 +1,10 @@
 import React from 'react';
 import ReactDOM from 'react-dom/client';
 import App from './App';
+// Cover title fonts (see services/titleStyle), bundled so they work offline
+import '@fontsource/zcool-kuaile';
+import '@fontsource/zcool-qingke-huangyou';
+import '@fontsource/ma-shan-zheng';
 
 const rootElement = document.getElementById('root');
 if (!rootElement) {
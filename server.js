@@ -1,9 +1,14 @@
 import express from 'express';
 import cors from 'cors';
 import dotenv from 'dotenv';
-import OpenAI from 'openai';
 import path from 'path';
 import { fileURLToPath } from 'url';
+import { callLLM, listProviders, resolveProviderId } from './server/providers.js';
+import { extractLocalMetadata } from './server/localMetadata.js';
+import { CANDIDATE_FIELDS, clampCandidateCount, hasValue, requestFieldCandidates, requestMetadata } from './server/metadata.js';
+import { buildRewriteInstruction, readRewriteResult, REWRITE_LANGUAGES, REWRITE_MODES } from './server/rewrite.js';
+import { parseMarkdownSections } from './server/markdown.js';
+import { buildContentSlides } from './server/layouts.js';
 
 dotenv.config({ path: '.env.local' });
 
@@ -55,123 +60,255 @@ Your ONLY job is to convert the input text into a JSON array structure.
 - Return the result as a valid JSON array.
 `;
 
-// --- AI HANDLERS ---
-
-async function callDeepSeek(text, systemInstruction) {
-    const apiKey = process.env.DEEPSEEK_API_KEY ? process.env.DEEPSEEK_API_KEY.trim() : "";
-    if (!apiKey) throw new Error("Missing DEEPSEEK_API_KEY");
-
-    const openai = new OpenAI({
-        baseURL: 'https://api.deepseek.com',
-        apiKey: apiKey
+const DEFAULT_PROMO = {
+    headline: "觉得有用就关注我吧",
+    cta: "收藏 + 关注，干货不迷路"
+};
+
+// Puts `first` in front of the candidates without duplicating it
+const withFirst = (first, candidates, key = (value) => value) => {
+    if (!hasValue(first)) return candidates;
+    return [first, ...candidates.filter(candidate => key(candidate) !== key(first))];
+};
+
+// Closing the request (e.g. the user pressed Cancel) aborts the upstream LLM call
+const abortOnClose = (res) => {
+    const controller = new AbortController();
+    res.on('close', () => {
+        if (!res.writableEnded) controller.abort();
     });
-
-    try {
-        const completion = await openai.chat.completions.create({
-            messages: [
-                { role: "system", content: systemInstruction + "\n\nResponse MUST be a JSON array." },
-                { role: "user", content: text }
-            ],
-            model: "deepseek-chat",
-            response_format: { type: "json_object" },
-        });
-
-        // Note: DeepSeek might return an object wrapping the array or just the array string. 
-        // We need to parse robustly.
-        const content = completion.choices[0].message.content;
-        const parsed = JSON.parse(content);
-
-        // If it's wrapped in an object keys like { "slides": [] }, extract it.
-        if (!Array.isArray(parsed)) {
-            // simple heuristic
-            const values = Object.values(parsed);
-            if (values.length === 1 && Array.isArray(values[0])) return values[0];
-            // basic fallback
-            return [];
-        }
-        return parsed;
-    } catch (e) {
-        console.error("DeepSeek API Error", e);
-        throw new Error("Failed to call or parse DeepSeek API");
-    }
-}
+    return controller;
+};
+
+// `provider` is optional; when given it must name a provider that is set up, or the request can't succeed as sent
+const invalidProviderMessage = (provider) => {
+    if (provider === undefined || provider === null || provider === '') return null;
+    const providers = listProviders();
+    const ids = providers.map(p => p.id).join(', ');
+    if (typeof provider !== 'string') return `Provider must be one of: ${ids}`;
+    const match = providers.find(p => p.id === resolveProviderId(provider));
+    if (!match) return `Unknown provider "${provider}". Provider must be one of: ${ids}`;
+    if (!match.configured) return `Provider "${match.id}" has no API key set. Configured: ${providers.filter(p => p.configured).map(p => p.id).join(', ')}`;
+    return null;
+};
 
 // --- ROUTE ---
 
+// Lets the client offer a provider picker; keys never leave the server.
+app.get('/api/providers', (req, res) => {
+    res.json(listProviders());
+});
+
+// With `stream: true` the response is NDJSON, one event per line:
+//   { type: 'metadata', cover, generation }  cover slide is ready
+//   { type: 'paragraphs', slides }           content (+ promo) slides, unpaginated
+//   { type: 'done' } | { type: 'error', error }
+// Otherwise a single JSON body { slides, generation } is returned.
 app.post('/api/generate', async (req, res) => {
+    const { stream } = req.body || {};
+    const emit = (event) => res.write(JSON.stringify(event) + '\n');
+
+    const controller = abortOnClose(res);
+
     try {
-        const { text, title, subtitle } = req.body;
-        if (!text) return res.status(400).json({ error: "Text is required" });
+        const { text, title, subtitle, includePromo, promo, provider, mode, candidateCount, suggestLayouts } = req.body;
+        if (typeof text !== 'string' || !text) return res.status(400).json({ error: "Text is required" });
+        const providerMessage = invalidProviderMessage(provider);
+        if (providerMessage) return res.status(400).json({ error: providerMessage });
+
+        if (stream) {
+            res.setHeader('Content-Type', 'application/x-ndjson; charset=utf-8');
+            res.setHeader('Cache-Control', 'no-cache');
+            res.flushHeaders();
+        }
 
-        console.log(`[API] Request received. Using DeepSeek for all requests.`);
+        // mode 'local' skips the LLM entirely; anything else tries AI first
+        const useAi = mode !== 'local';
+        console.log(`[API] Request received. ${useAi ? `Provider: ${provider || 'default'}` : 'Local extraction only'}`);
 
         // 2. Prepare Prompt for METADATA ONLY
         const safeTitle = title || 'Main Title';
         const safeSubtitle = subtitle || 'Summary';
 
-        const METADATA_INSTRUCTION = `
-You are a creative metadata generator for "Little Red Book" (Xiaohongshu).
-Analyze the input text and return a JSON ARRAY containing EXACTLY ONE OBJECT with the following fields:
-
-[
-  {
-    "title": "${safeTitle} (If default, generate a viral, click-worthy Title in Chinese. STRICT LIMIT: MAX 16 CHARS)",
-    "subtitle": "Generate a COOL, concise subtitle in ENGLISH (Max 7 words)",
-    "category": "Extract a 2-4 char category (e.g. '思维认知', '职场干货')",
-    "tags": ["Tag1", "Tag2", "Tag3"],
-    "quote": "Extract ONE 'Golden Sentence' (金句) that is insightful and punchy. STRICT LIMIT: MAX 20 CHINESE CHARACTERS."
-  }
-]
-
-CRITICAL: 
-- Return an ARRAY with ONE object.
-- Quote MUST be short (<20 chars).
-- Subtitle MUST be English.
-`;
+        const count = clampCandidateCount(candidateCount);
 
-        let metadata; // { title, subtitle, category, tags, quote }
+        // Candidate lists per field, best first, plus the single category
+        let metadata = { candidates: { title: [], subtitle: [], quote: [], tags: [] }, category: '' };
+        const generation = { mode: 'local', provider: null, aiFields: [], fallbackReason: null, validationErrors: [] };
 
         // 3. Route to AI for Metadata
-        // Always usage DeepSeek
-        let aiResultRaw = await callDeepSeek(text, METADATA_INSTRUCTION);
-
-        // Handle if AI returns array or object
-        if (Array.isArray(aiResultRaw)) {
-            metadata = aiResultRaw[0] || {};
-        } else {
-            metadata = aiResultRaw || {};
+        // Provider comes from the request, falling back to LLM_PROVIDER
+        if (useAi) {
+            try {
+                // Validated against the metadata schema, with repair prompts for failing fields
+                metadata = await requestMetadata({ text, title, count, provider, signal: controller.signal });
+                generation.validationErrors = metadata.errors.filter(error => metadata.failedFields.includes(error.field) || error.field === '(root)');
+                generation.mode = 'ai';
+                generation.provider = resolveProviderId(provider);
+            } catch (error) {
+                if (controller.signal.aborted) {
+                    console.log("[API] Client went away, generation cancelled");
+                    return;
+                }
+                // A provider the client picked but the server can't use is the client's error, not a reason to fall back
+                if (error.isConfigError && provider) throw error;
+                // Content is split verbatim anyway, so a failed AI call only costs the cover metadata
+                console.warn("[API] AI metadata failed, using local extraction:", error.message);
+                generation.mode = 'fallback';
+                generation.fallbackReason = error.message || 'AI request failed';
+            }
         }
 
+        // Fields the AI left empty are filled locally; a user-supplied title always wins
+        const localMetadata = extractLocalMetadata(text);
+        const { candidates } = metadata;
+        generation.aiFields = [
+            ...CANDIDATE_FIELDS.filter(field => candidates[field].length > 0 && !(field === 'title' && title)),
+            ...(hasValue(metadata.category) ? ['category'] : [])
+        ];
+
         // 4. MANUAL CONTENT SPLITTING (Verbatim Mode)
-        // Split by newline, filter empty
-        const rawParagraphs = text.split(/\n+/).filter(line => line.trim().length > 0);
+        // Markdown-aware: tables, lists and blockquotes stay whole; # and --- start a new section
+        const sections = parseMarkdownSections(text);
+        const rawParagraphs = sections.flatMap(section => section.blocks);
 
         // 5. Construct Final Slide Data
         // Slide 1: Cover
         const coverSlide = {
             type: 'cover',
-            title: metadata.title || safeTitle,
-            subtitle: metadata.subtitle || safeSubtitle,
-            category: metadata.category || "Knowledge",
-            tags: metadata.tags || ["干货"],
-            content: [metadata.quote || rawParagraphs[0] || "Summary"]
+            title: title || candidates.title[0] || localMetadata.title || safeTitle,
+            subtitle: candidates.subtitle[0] || subtitle || localMetadata.subtitle || safeSubtitle,
+            category: metadata.category || localMetadata.category || "Knowledge",
+            tags: candidates.tags[0] || localMetadata.tags,
+            content: [candidates.quote[0] || localMetadata.quote || rawParagraphs[0] || "Summary"]
+        };
+        // The picker in the editor offers every option; the chosen value always comes first
+        coverSlide.candidates = {
+            title: withFirst(coverSlide.title, candidates.title),
+            subtitle: withFirst(coverSlide.subtitle, candidates.subtitle),
+            quote: withFirst(coverSlide.content[0], candidates.quote),
+            tags: withFirst(coverSlide.tags, candidates.tags, tags => tags.join('|'))
         };
+        if (stream) emit({ type: 'metadata', cover: coverSlide, generation });
 
         // Slide 2+: Content (Verbatim Paragraphs)
-        const contentSlides = rawParagraphs.map(para => ({
-            type: 'content',
-            title: "", // Empty for content pages
-            category: coverSlide.category,
-            content: [para] // Wrapping the raw verbatim paragraph
-        }));
+        // One flow of paragraphs per section; the client paginates each by measuring
+        // rendered height, and every section after the first starts on a new page.
+        // Stats, quotes, steps, checklists and 3-column tables get a layout page of their own.
+        const contentSlides = buildContentSlides(sections, coverSlide.category, { suggestLayouts: suggestLayouts !== false });
+        if (contentSlides.length === 0) {
+            contentSlides.push({ type: 'content', title: "", category: coverSlide.category, content: [] });
+        }
 
         const finalResult = [coverSlide, ...contentSlides];
 
-        res.json(finalResult);
+        // Slide N+1: Promo (Optional closing call-to-action page)
+        if (includePromo) {
+            const promoOptions = promo || {};
+            finalResult.push({
+                type: 'promo',
+                title: "",
+                category: coverSlide.category,
+                content: [],
+                promoHeadline: promoOptions.headline || DEFAULT_PROMO.headline,
+                promoHandle: promoOptions.handle || "",
+                promoCta: promoOptions.cta || DEFAULT_PROMO.cta,
+                promoQrCode: promoOptions.qrCode || ""
+            });
+        }
+
+        if (stream) {
+            emit({ type: 'paragraphs', slides: finalResult.slice(1) });
+            emit({ type: 'done' });
+            res.end();
+            return;
+        }
+
+        res.json({ slides: finalResult, generation });
 
     } catch (error) {
         console.error("Generation Error:", error);
-        res.status(500).json({ error: error.message || "Internal Server Error" });
+        if (res.headersSent) {
+            // Mid-stream: the status line is gone, report in-band
+            emit({ type: 'error', error: error.message || "Internal Server Error" });
+            res.end();
+            return;
+        }
+        res.status(error.isConfigError ? 400 : 500).json({ error: error.message || "Internal Server Error" });
+    }
+});
+
+// Fresh candidates for one cover field, without regenerating the deck.
+// Body: { text, field: 'title' | 'subtitle' | 'quote' | 'tags', count?, exclude?, provider? }
+app.post('/api/regenerate', async (req, res) => {
+    const controller = abortOnClose(res);
+
+    try {
+        const { text, field, count: requestedCount, exclude, provider } = req.body || {};
+        if (typeof text !== 'string' || !text) return res.status(400).json({ error: "Text is required" });
+        if (!CANDIDATE_FIELDS.includes(field)) {
+            return res.status(400).json({ error: `Field must be one of: ${CANDIDATE_FIELDS.join(', ')}` });
+        }
+        const providerMessage = invalidProviderMessage(provider);
+        if (providerMessage) return res.status(400).json({ error: providerMessage });
+
+        const count = clampCandidateCount(requestedCount);
+        const known = Array.isArray(exclude) ? exclude : [];
+        const { values: candidates, errors } = await requestFieldCandidates({
+            text,
+            field,
+            count,
+            exclude: known,
+            provider,
+            signal: controller.signal
+        });
+        if (candidates.length === 0) {
+            const reason = errors.length > 0 ? ` (${errors[0].message})` : '';
+            return res.status(502).json({ error: `The AI returned no new valid ${field} candidates${reason}. Try again.`, validationErrors: errors });
+        }
+        res.json({ field, candidates, provider: resolveProviderId(provider) });
+
+    } catch (error) {
+        if (controller.signal.aborted) return;
+        console.error("Regenerate Error:", error);
+        res.status(error.isConfigError ? 400 : 502).json({ error: error.message || "Failed to regenerate" });
+    }
+});
+
+// Rewrites one paragraph; the client shows a diff and lets the user accept or reject it.
+// Body: { text, mode: 'shorten' | 'emoji' | 'punchier' | 'translate', language?: 'en' | 'zh', provider? }
+app.post('/api/rewrite', async (req, res) => {
+    const controller = abortOnClose(res);
+
+    try {
+        const { text, mode, language, provider } = req.body || {};
+        if (typeof text !== 'string' || !text.trim()) return res.status(400).json({ error: "Text is required" });
+        if (!REWRITE_MODES.includes(mode)) {
+            return res.status(400).json({ error: `Mode must be one of: ${REWRITE_MODES.join(', ')}` });
+        }
+        if (language !== undefined && !REWRITE_LANGUAGES.includes(language)) {
+            return res.status(400).json({ error: `Language must be one of: ${REWRITE_LANGUAGES.join(', ')}` });
+        }
+        const providerMessage = invalidProviderMessage(provider);
+        if (providerMessage) return res.status(400).json({ error: providerMessage });
+
+        const raw = await callLLM({
+            text,
+            systemInstruction: buildRewriteInstruction({ mode, language }),
+            provider,
+            signal: controller.signal
+        });
+
+        const rewritten = readRewriteResult(raw);
+        if (!rewritten) {
+            return res.status(502).json({ error: "The AI returned an empty rewrite. Try again." });
+        }
+        res.json({ mode, text: rewritten, provider: resolveProviderId(provider) });
+
+    } catch (error) {
+        if (controller.signal.aborted) return;
+        console.error("Rewrite Error:", error);
+        res.status(error.isConfigError ? 400 : 502).json({ error: error.message || "Failed to rewrite" });
     }
 });
 
@@ -0,0 +1,113 @@
+// --- CONFIGURATION ---
+
+// Mirrors ContentLayout in types.ts; 'text' is the default flowing layout
+export const CONTENT_LAYOUTS = ['text', 'stat', 'quote', 'comparison', 'image', 'timeline', 'checklist'];
+
+const MAX_STAT_LENGTH = 40; // A "big number" line longer than this is a sentence, not a stat
+const MAX_QUOTE_LENGTH = 90;
+const MIN_TIMELINE_STEPS = 3;
+
+// "87%", "3倍", "10万+" or a bold "**2,000人**" at the start of a short line. Bare
+// numbers ("2023年...") are not stats, and a Latin unit must not start a word ("2 weeks").
+const STAT_PATTERN = /^(?:\*\*([+-]?\d[\d,.]*[^*\s]{0,3}\+?)\*\*|([+-]?\d[\d,.]*\s*(?:%|％|倍|万|亿|k|K|w|W|x|X)(?![A-Za-z])\+?))\s*[：:，,]?\s*(.+)$/;
+const ORDERED_ITEM = /^\s*\d+[.)、]\s+/;
+const CHECK_ITEM = /^\s*[-*+]\s+\[[ xX]\]\s+/;
+const ATTRIBUTION = /^(?:——|—|--|-)\s*/;
+
+// --- HELPERS ---
+
+const lines = (block) => block.split('\n').map(line => line.trim()).filter(Boolean);
+const isHeading = (block) => /^#{1,6}\s/.test(block.trim());
+const stripHeading = (block) => block.trim().replace(/^#{1,6}\s+/, '');
+
+const tableCells = (row) => row.split('|').map(cell => cell.trim()).filter((cell, i, all) => !(cell === '' && (i === 0 || i === all.length - 1)));
+
+// --- SUGGESTIONS ---
+
+/**
+ * Suggests a dedicated layout for one content block, or null to keep it in the
+ * text flow. Returns the slide content the layout expects:
+ *
+ * - stat:       [number, label]
+ * - quote:      [quote, attribution?]
+ * - comparison: ['## Left', '- aspect: value', '## Right', '- aspect: value'] (from a 3-column table)
+ * - timeline:   one block per step
+ * - checklist:  one "- [ ] item" block per item
+ */
+export const suggestLayout = (block) => {
+    const trimmed = block.trim();
+    const rows = lines(trimmed);
+
+    if (rows.length >= 2 && rows.every(row => CHECK_ITEM.test(row))) {
+        return { layout: 'checklist', content: rows };
+    }
+
+    if (rows.length >= MIN_TIMELINE_STEPS && rows.every(row => ORDERED_ITEM.test(row))) {
+        return { layout: 'timeline', content: rows.map(row => row.replace(ORDERED_ITEM, '')) };
+    }
+
+    if (rows[0].startsWith('>') && !/^>\s*\[!/.test(rows[0]) && rows.every(row => row.startsWith('>'))) {
+        const quoteLines = rows.map(row => row.replace(/^>\s?/, '').trim()).filter(Boolean);
+        const last = quoteLines[quoteLines.length - 1] || '';
+        const attribution = quoteLines.length > 1 && ATTRIBUTION.test(last) ? last.replace(ATTRIBUTION, '') : null;
+        const quote = (attribution ? quoteLines.slice(0, -1) : quoteLines).join('\n');
+        if (quote && quote.length <= MAX_QUOTE_LENGTH) {
+            return { layout: 'quote', content: attribution ? [quote, attribution] : [quote] };
+        }
+        return null;
+    }
+
+    if (rows[0].startsWith('|')) {
+        const cells = rows.filter(row => !/^\|?[\s:|-]+\|?$/.test(row)).map(tableCells);
+        if (cells.length >= 2 && cells.every(row => row.length === 3)) {
+            const [header, ...body] = cells;
+            const column = (i) => body.map(row => `- ${row[0]}：${row[i]}`).join('\n');
+            return { layout: 'comparison', content: [`## ${header[1]}`, column(1), `## ${header[2]}`, column(2)] };
+        }
+        return null;
+    }
+
+    if (rows.length === 1 && trimmed.length <= MAX_STAT_LENGTH) {
+        const match = trimmed.match(STAT_PATTERN);
+        if (match) return { layout: 'stat', content: [(match[1] || match[2]).trim(), match[3].trim()] };
+    }
+
+    return null;
+};
+
+/**
+ * Turns parsed Markdown sections into content slides. Plain blocks flow
+ * together as 'text' slides; blocks with a suggested layout get a slide of
+ * their own, titled by the heading right before them (if any).
+ */
+export const buildContentSlides = (sections, category, { suggestLayouts = true } = {}) => {
+    const slides = [];
+
+    sections.forEach((section, sectionIndex) => {
+        const start = slides.length;
+        let flow = [];
+        const flushFlow = () => {
+            if (flow.length > 0) slides.push({ type: 'content', title: "", category, content: flow });
+            flow = [];
+        };
+
+        for (const block of section.blocks) {
+            const suggestion = suggestLayouts ? suggestLayout(block) : null;
+            if (!suggestion) {
+                flow.push(block);
+                continue;
+            }
+            // A heading must not be left at the bottom of the previous page
+            const title = flow.length > 0 && isHeading(flow[flow.length - 1]) ? stripHeading(flow.pop()) : "";
+            flushFlow();
+            slides.push({ type: 'content', title, category, content: suggestion.content, contentLayout: suggestion.layout });
+        }
+        flushFlow();
+
+        if (sectionIndex > 0 && slides.length > start) {
+            slides[start].pageBreakBefore = true;
+        }
+    });
+
+    return slides;
+};
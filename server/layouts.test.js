@@ -0,0 +1,23 @@
+import { describe, expect, it } from 'vitest';
+import { suggestLayout } from './layouts.js';
+
+// --- STAT ---
+
+describe('suggestLayout stat', () => {
+    it('suggests a stat for a number with a unit', () => {
+        expect(suggestLayout('87% 的人都忽略了这一步')).toEqual({ layout: 'stat', content: ['87%', '的人都忽略了这一步'] });
+        expect(suggestLayout('10万+ 阅读')).toEqual({ layout: 'stat', content: ['10万+', '阅读'] });
+        expect(suggestLayout('3x faster')).toEqual({ layout: 'stat', content: ['3x', 'faster'] });
+        expect(suggestLayout('**2,000人** 参与了测试')).toEqual({ layout: 'stat', content: ['2,000人', '参与了测试'] });
+    });
+
+    it('does not read the first letter of an English word as a unit', () => {
+        for (const line of ['2 weeks later I quit', '10 Xiaohongshu tips', '3 Kinds of people', '5 kids and a dog']) {
+            expect(suggestLayout(line)).toBeNull();
+        }
+    });
+
+    it('does not treat a bare number as a stat', () => {
+        expect(suggestLayout('2023年我辞职了')).toBeNull();
+    });
+});
@@ -0,0 +1,121 @@
+// --- CONFIGURATION ---
+
+// Deterministic metadata for when no LLM is available (or the user asked for none).
+// Categories are matched by keyword frequency; the first rule wins ties.
+const CATEGORY_RULES = [
+    { category: '职场干货', subtitle: 'Work Smarter Not Harder', keywords: ['职场', '工作', '老板', '同事', '领导', '面试', '升职', '加薪', '跳槽', '加班', '简历'] },
+    { category: '思维认知', subtitle: 'Rethink The Way You Think', keywords: ['认知', '思维', '底层逻辑', '本质', '格局', '思考', '判断'] },
+    { category: '个人成长', subtitle: 'Grow A Little Every Day', keywords: ['成长', '自律', '习惯', '坚持', '改变', '目标', '读书', '学习'] },
+    { category: '情感关系', subtitle: 'Love Yourself First', keywords: ['恋爱', '感情', '婚姻', '伴侣', '分手', '喜欢', '男朋友', '女朋友', '亲密关系'] },
+    { category: '理财投资', subtitle: 'Make Your Money Work', keywords: ['理财', '投资', '存钱', '基金', '股票', '收入', '副业', '赚钱', '消费'] },
+    { category: '健康生活', subtitle: 'Healthy Body Happy Mind', keywords: ['健康', '健身', '减肥', '睡眠', '饮食', '运动', '早起', '焦虑'] },
+    { category: '效率工具', subtitle: 'Tools That Save Your Time', keywords: ['效率', '工具', '软件', 'AI', 'App', '插件', '笔记', '时间管理'] },
+    { category: '旅行攻略', subtitle: 'Pack Light Travel Far', keywords: ['旅行', '旅游', '景点', '酒店', '机票', '攻略', '出行'] },
+    { category: '美食探店', subtitle: 'Good Food Good Mood', keywords: ['美食', '餐厅', '探店', '好吃', '做饭', '食谱', '咖啡'] },
+    { category: '育儿教育', subtitle: 'Raising Kids With Patience', keywords: ['孩子', '育儿', '父母', '教育', '宝宝', '家长'] }
+];
+
+const DEFAULT_CATEGORY = { category: '干货分享', subtitle: 'Notes Worth Saving' };
+const DEFAULT_TAGS = ['干货', '建议收藏'];
+
+const TITLE_MAX = 16;
+const QUOTE_MAX = 20;
+const MAX_TAGS = 4;
+
+// Phrases that usually mark an aphorism-like sentence (金句)
+const QUOTE_MARKERS = ['不是', '而是', '才是', '永远', '所有', '真正', '与其', '不如', '只有', '就是', '最好的'];
+
+// --- HELPERS ---
+
+// Strips markdown decoration so headings and bold text read as plain sentences
+export const toPlainText = (text) => text
+    .replace(/^\s*(?:-{3,}|\*{3,}|_{3,})\s*$/gm, '') // --- page breaks
+    .replace(/^#{1,6}\s*/gm, '')
+    .replace(/!\[([^\]]*)\]\([^)]*\)/g, '$1') // Images keep only their caption
+    .replace(/\*\*(.*?)\*\*/g, '$1')
+    .replace(/^\s*(?:[-*>]|\d+[.、])\s+/gm, '')
+    .replace(/^\|.*\|$/gm, ''); // Tables carry no usable sentences
+
+const splitSentences = (text) => toPlainText(text)
+    .split(/\n+|(?<=[。！？!?；;])/)
+    .map(s => s.trim())
+    .filter(s => s.length > 0);
+
+const countOccurrences = (text, keyword) => {
+    let count = 0;
+    let index = text.indexOf(keyword);
+    while (index !== -1) {
+        count++;
+        index = text.indexOf(keyword, index + keyword.length);
+    }
+    return count;
+};
+
+// Cuts at the last clause boundary that fits, otherwise hard-truncates
+const clip = (sentence, max) => {
+    const trimmed = sentence.replace(/[。！？!?；;，,、：:]+$/, '');
+    if (trimmed.length <= max) return trimmed;
+    const head = trimmed.slice(0, max);
+    const boundary = Math.max(head.lastIndexOf('，'), head.lastIndexOf(','), head.lastIndexOf('、'), head.lastIndexOf('：'));
+    return boundary >= Math.floor(max / 2) ? head.slice(0, boundary) : head;
+};
+
+const scoreQuote = (sentence) => {
+    const body = sentence.replace(/[。！？!?；;]+$/, '');
+    if (body.length < 6) return -Infinity;
+    let score = 0;
+    if (body.length <= QUOTE_MAX) score += 3; else score -= (body.length - QUOTE_MAX) / 5;
+    if (/[！!]$/.test(sentence)) score += 1;
+    if (/[，,]/.test(body)) score += 0.5; // Two balanced clauses read well on a cover
+    score += QUOTE_MARKERS.filter(marker => body.includes(marker)).length * 1.5;
+    if (/\d/.test(body)) score -= 1; // Numbers are usually facts, not insights
+    return score;
+};
+
+// --- PUBLIC API ---
+
+/**
+ * Builds cover metadata from the text alone: title from the first sentence,
+ * category and tags by keyword matching, and a golden sentence by heuristics.
+ * Returns the same fields the LLM is asked for.
+ */
+export const extractLocalMetadata = (text) => {
+    const sentences = splitSentences(text);
+    const plain = toPlainText(text);
+
+    // Category: the rule whose keywords appear most often
+    let best = DEFAULT_CATEGORY;
+    let bestCount = 0;
+    const keywordCounts = [];
+    for (const rule of CATEGORY_RULES) {
+        let ruleCount = 0;
+        for (const keyword of rule.keywords) {
+            const count = countOccurrences(plain, keyword);
+            if (count > 0) keywordCounts.push({ keyword, count });
+            ruleCount += count;
+        }
+        if (ruleCount > bestCount) {
+            best = rule;
+            bestCount = ruleCount;
+        }
+    }
+
+    // Tags: explicit #hashtags first, then the most frequent matched keywords
+    const hashtags = Array.from(text.matchAll(/#([^\s#，。,.!！?？]{2,10})(?=\s|$|[，。,.!！?？])/g), m => m[1]);
+    const keywordTags = keywordCounts
+        .sort((a, b) => b.count - a.count)
+        .map(k => k.keyword);
+    const tags = Array.from(new Set([...hashtags, ...keywordTags])).slice(0, MAX_TAGS);
+
+    const quoteSource = sentences
+        .map((sentence, index) => ({ sentence, score: scoreQuote(sentence) - index * 0.01 })) // Earlier wins ties
+        .sort((a, b) => b.score - a.score)[0];
+
+    return {
+        title: clip(sentences[0] || '', TITLE_MAX),
+        subtitle: best.subtitle,
+        category: best.category,
+        tags: tags.length > 0 ? tags : DEFAULT_TAGS,
+        quote: quoteSource && quoteSource.score > -Infinity ? clip(quoteSource.sentence, QUOTE_MAX) : ''
+    };
+};
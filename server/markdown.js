@@ -0,0 +1,66 @@
+import { marked } from 'marked';
+
+// --- HELPERS ---
+
+// "text\n---" lexes as a setext heading, but an explicit --- always means "page break",
+// however the author spaced it. Only the --- underline does this; # and === headings are real.
+const isSetextRule = (token) => token.depth === 2 && /\n[ \t]*-+[ \t]*\n*$/.test(token.raw);
+
+// Headings are stored the way SlideRenderer draws them: ## big header, ### small header
+const toHeaderBlock = (token) => `${token.depth <= 2 ? '##' : '###'} ${token.text.trim()}`;
+
+// --- PUBLIC API ---
+
+/**
+ * Splits a (possibly Markdown) article into sections of content blocks.
+ *
+ * - `#` headings and `---` rules start a new section (a forced page break); the
+ *   `#` heading becomes its first block.
+ * - `##` / `###` stay in the flow as header blocks.
+ * - Tables, lists, blockquotes and code stay whole, one block each.
+ * - Plain paragraphs are split per line, since pasted Xiaohongshu articles use
+ *   single line breaks between paragraphs.
+ *
+ * Returns [{ blocks }]; empty sections are dropped.
+ */
+export const parseMarkdownSections = (text) => {
+    const tokens = marked.lexer(text, { gfm: true });
+    const sections = [{ blocks: [] }];
+    const current = () => sections[sections.length - 1];
+    const startSection = () => {
+        if (current().blocks.length > 0) sections.push({ blocks: [] }); // An empty section has nothing to break away from
+    };
+    const pushLines = (raw) => current().blocks.push(...raw.split(/\n+/).filter(line => line.trim().length > 0));
+
+    for (const token of tokens) {
+        switch (token.type) {
+            case 'space':
+                break;
+            case 'hr':
+                startSection();
+                break;
+            case 'heading':
+                if (isSetextRule(token)) {
+                    pushLines(token.text);
+                    startSection();
+                    break;
+                }
+                if (token.depth === 1) {
+                    startSection();
+                }
+                current().blocks.push(toHeaderBlock(token));
+                break;
+            case 'paragraph':
+            case 'text':
+                pushLines(token.raw);
+                break;
+            default:
+                // table, list, blockquote, code, html: verbatim, as one block
+                if (token.raw && token.raw.trim()) {
+                    current().blocks.push(token.raw.replace(/\n+$/, ''));
+                }
+        }
+    }
+
+    return sections.filter(section => section.blocks.length > 0);
+};
@@ -0,0 +1,21 @@
+import { describe, expect, it } from 'vitest';
+import { parseMarkdownSections } from './markdown.js';
+
+const blocks = (text) => parseMarkdownSections(text).map(section => section.blocks);
+
+// --- SECTIONS ---
+
+describe('parseMarkdownSections', () => {
+    it('starts a section at # headings and --- rules', () => {
+        expect(blocks('开头\n# 第一节\n正文\n\n---\n\n结尾')).toEqual([['开头'], ['## 第一节', '正文'], ['结尾']]);
+    });
+
+    it('reads --- right under a line as a page break, not a heading', () => {
+        expect(blocks('第一段\n---\n第二段')).toEqual([['第一段'], ['第二段']]);
+    });
+
+    it('keeps a --- line inside a code block as written', () => {
+        const code = '```yaml\nname: a\n---\nname: b\n```';
+        expect(blocks(`说明\n\n${code}`)).toEqual([['说明', code]]);
+    });
+});
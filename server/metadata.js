@@ -0,0 +1,314 @@
+import { callLLM } from './providers.js';
+
+// --- CONFIGURATION ---
+
+export const METADATA_FIELDS = ['title', 'subtitle', 'category', 'tags', 'quote'];
+
+// Fields the AI proposes several options for; category stays a single value
+export const CANDIDATE_FIELDS = ['title', 'subtitle', 'quote', 'tags'];
+
+export const TITLE_MAX_CHARS = 16;
+export const QUOTE_MAX_CHARS = 20;
+export const SUBTITLE_MAX_WORDS = 7;
+const MAX_TAGS_PER_SET = 6;
+const MIN_TAGS_PER_SET = 2;
+const TAG_MAX_CHARS = 10;
+
+export const DEFAULT_CANDIDATE_COUNT = 3;
+const MAX_CANDIDATE_COUNT = 5;
+
+// Extra LLM round trips that send the validation errors back for correction
+const getRepairAttempts = () => {
+    const value = Number(process.env.LLM_REPAIR_ATTEMPTS);
+    return Number.isFinite(value) && value >= 0 ? value : 1;
+};
+
+const CJK = /[\u3400-\u9fff]/;
+const CATEGORY_PATTERN = /^[\u3400-\u9fff]{2,4}$/;
+const ENGLISH_PATTERN = /^[A-Za-z0-9\s,.'’&!?:;()\-]+$/;
+
+// --- SCHEMA ---
+
+// Counts code points, so emoji and CJK each count as one character
+const charLength = (text) => Array.from(text).length;
+
+// Each rule returns an error message, or null when the value is fine
+const SCHEMA = {
+    title: {
+        shape: 'list',
+        check: (text) => {
+            if (charLength(text) > TITLE_MAX_CHARS) return `is ${charLength(text)} characters (max ${TITLE_MAX_CHARS})`;
+            if (!CJK.test(text)) return 'must be in Chinese';
+            return null;
+        }
+    },
+    subtitle: {
+        shape: 'list',
+        check: (text) => {
+            if (!ENGLISH_PATTERN.test(text)) return 'must be English';
+            const words = text.split(/\s+/).length;
+            if (words > SUBTITLE_MAX_WORDS) return `has ${words} words (max ${SUBTITLE_MAX_WORDS})`;
+            return null;
+        }
+    },
+    quote: {
+        shape: 'list',
+        check: (text) => charLength(text) > QUOTE_MAX_CHARS ? `is ${charLength(text)} characters (max ${QUOTE_MAX_CHARS})` : null
+    },
+    tags: {
+        shape: 'tagSets',
+        check: (set) => {
+            if (set.length < MIN_TAGS_PER_SET) return `needs at least ${MIN_TAGS_PER_SET} tags`;
+            const long = set.find(tag => charLength(tag) > TAG_MAX_CHARS);
+            return long ? `tag "${long}" is longer than ${TAG_MAX_CHARS} characters` : null;
+        }
+    },
+    category: {
+        shape: 'single',
+        check: (text) => CATEGORY_PATTERN.test(text) ? null : 'must be 2-4 Chinese characters'
+    }
+};
+
+// --- HELPERS ---
+
+export const hasValue = (value) => Array.isArray(value)
+    ? value.some(item => typeof item === 'string' && item.trim().length > 0)
+    : typeof value === 'string' && value.trim().length > 0;
+
+export const clampCandidateCount = (value) => {
+    const count = Math.round(Number(value));
+    if (!Number.isFinite(count)) return DEFAULT_CANDIDATE_COUNT;
+    return Math.min(MAX_CANDIDATE_COUNT, Math.max(1, count));
+};
+
+// Models like to wrap suggestions in quotes, number them or keep Markdown markers from the article
+const cleanString = (value) => String(value)
+    .trim()
+    .replace(/^(?:#{1,6}\s*|(?:>|[-*+])\s+)/, '')
+    .replace(/^\d+[.、)]\s*/, '')
+    .replace(/^["“「『']+|["”」』']+$/g, '')
+    .trim();
+
+const cleanTagSet = (set) => Array.from(new Set(
+    set.filter(tag => typeof tag === 'string')
+        .map(tag => tag.trim().replace(/^#+/, ''))
+        .filter(tag => tag.length > 0)
+)).slice(0, MAX_TAGS_PER_SET);
+
+const candidateKey = (value) => Array.isArray(value) ? value.join('|') : value;
+
+// --- VALIDATION ---
+
+/**
+ * Checks what the model returned for one field against the schema.
+ * Returns the valid, cleaned, de-duplicated values (best first) and one error
+ * per rejected value, e.g. { field: 'title', message: 'title[1] is 19 characters (max 16)' }.
+ */
+export const validateField = (field, raw) => {
+    const { shape, check } = SCHEMA[field];
+    const errors = [];
+    const values = [];
+    const seen = new Set();
+    const fail = (path, message) => errors.push({ field, message: `${path} ${message}` });
+
+    if (raw === undefined || raw === null || (Array.isArray(raw) && raw.length === 0)) {
+        fail(field, 'is missing');
+        return { values, errors };
+    }
+
+    let items;
+    if (shape === 'single') {
+        items = [raw];
+    } else if (shape === 'tagSets') {
+        // A flat list of strings is one tag set
+        items = Array.isArray(raw) && raw.every(item => typeof item === 'string') ? [raw] : Array.isArray(raw) ? raw : [raw];
+    } else {
+        items = Array.isArray(raw) ? raw : [raw];
+    }
+
+    items.forEach((item, index) => {
+        const path = shape === 'single' ? field : `${field}[${index}]`;
+        let value;
+        if (shape === 'tagSets') {
+            if (!Array.isArray(item)) return fail(path, 'must be a list of tags');
+            value = cleanTagSet(item);
+        } else {
+            if (typeof item !== 'string') return fail(path, 'must be text');
+            value = cleanString(item);
+            if (!value) return fail(path, 'is empty');
+        }
+        const message = check(value);
+        if (message) return fail(path, `${message}: ${JSON.stringify(value)}`);
+
+        const key = candidateKey(value);
+        if (seen.has(key)) return; // Duplicates are harmless, just skip them
+        seen.add(key);
+        values.push(value);
+    });
+
+    return { values, errors };
+};
+
+/**
+ * Validates the full metadata answer. Fields that end up without a single valid
+ * value are listed in `failedFields`; the route fills those from the local extractor.
+ */
+export const validateMetadata = (raw, count) => {
+    const source = Array.isArray(raw) ? raw[0] : raw;
+    if (!source || typeof source !== 'object' || Array.isArray(source)) {
+        return {
+            candidates: { title: [], subtitle: [], quote: [], tags: [] },
+            category: '',
+            errors: [{ field: '(root)', message: 'Expected a JSON object with title, subtitle, category, tags and quote' }],
+            failedFields: [...METADATA_FIELDS]
+        };
+    }
+
+    const candidates = {};
+    const errors = [];
+    const failedFields = [];
+    for (const field of CANDIDATE_FIELDS) {
+        const result = validateField(field, source[field]);
+        candidates[field] = result.values.slice(0, count);
+        errors.push(...result.errors);
+        if (candidates[field].length === 0) failedFields.push(field);
+    }
+    const categoryResult = validateField('category', source.category);
+    errors.push(...categoryResult.errors);
+    if (categoryResult.values.length === 0) failedFields.push('category');
+
+    return { candidates, category: categoryResult.values[0] || '', errors, failedFields };
+};
+
+// A repair answer only replaces fields that were still failing
+const mergeMetadata = (previous, repaired) => {
+    const candidates = { ...previous.candidates };
+    let category = previous.category;
+    const stillFailing = previous.failedFields.filter(field => {
+        if (field === 'category') {
+            if (repaired.category) category = repaired.category;
+            return !repaired.category;
+        }
+        if (repaired.candidates[field].length > 0) candidates[field] = repaired.candidates[field];
+        return repaired.candidates[field].length === 0;
+    });
+    return {
+        candidates,
+        category,
+        errors: repaired.errors.filter(error => stillFailing.includes(error.field)),
+        failedFields: stillFailing
+    };
+};
+
+// The model may answer with the object, an array holding it, or a bare list for one field
+const unwrapField = (field, raw) => {
+    const source = Array.isArray(raw) && raw.length > 0 && raw[0] && typeof raw[0] === 'object' && !Array.isArray(raw[0])
+        ? raw[0]
+        : raw;
+    if (Array.isArray(source) || typeof source === 'string') return source;
+    return source?.[field] ?? source?.candidates;
+};
+
+// Candidates for a single-field regeneration, minus the ones the user already has
+const validateFieldCandidates = (field, raw, count, exclude) => {
+    const known = new Set(exclude.map(candidateKey));
+    const { values, errors } = validateField(field, unwrapField(field, raw));
+    const fresh = values.filter(value => !known.has(candidateKey(value))).slice(0, count);
+    if (values.length > 0 && fresh.length === 0) {
+        errors.push({ field, message: `${field} only repeated existing options` });
+    }
+    return { values: fresh, errors, failedFields: fresh.length === 0 ? [field] : [] };
+};
+
+// --- PROMPTS ---
+
+const FIELD_GUIDES = {
+    title: `a viral, click-worthy Title in Chinese. STRICT LIMIT: MAX ${TITLE_MAX_CHARS} CHARS`,
+    subtitle: `a COOL, concise subtitle in ENGLISH (Max ${SUBTITLE_MAX_WORDS} words)`,
+    quote: `ONE 'Golden Sentence' (金句) from the text that is insightful and punchy. STRICT LIMIT: MAX ${QUOTE_MAX_CHARS} CHINESE CHARACTERS`,
+    tags: `a set of ${MIN_TAGS_PER_SET}-5 short Xiaohongshu hashtags (without #, max ${TAG_MAX_CHARS} chars each)`
+};
+
+export const buildMetadataInstruction = ({ title, count }) => `
+You are a creative metadata generator for "Little Red Book" (Xiaohongshu).
+Analyze the input text and return a JSON OBJECT with the following fields.
+Every list MUST contain EXACTLY ${count} DIFFERENT candidates, best first:
+
+{
+  "title": ["${count} candidates, each ${FIELD_GUIDES.title}"${title ? ` (The author's working title is "${title}"; suggest alternatives)` : ''}],
+  "subtitle": ["${count} candidates, each ${FIELD_GUIDES.subtitle}"],
+  "category": "Extract a 2-4 CHINESE char category (e.g. '思维认知', '职场干货')",
+  "tags": [["Tag1", "Tag2", "Tag3"], "... ${count} tag sets"],
+  "quote": ["${count} candidates, each ${FIELD_GUIDES.quote}"]
+}
+
+CRITICAL:
+- Titles MUST be at most ${TITLE_MAX_CHARS} characters.
+- Quotes MUST be short (<=${QUOTE_MAX_CHARS} chars).
+- Subtitles MUST be English.
+- Category MUST be 2-4 Chinese characters.
+`;
+
+export const buildFieldInstruction = ({ field, count, exclude = [] }) => `
+You are a creative metadata generator for "Little Red Book" (Xiaohongshu).
+Analyze the input text and propose ${count} NEW candidates for ${FIELD_GUIDES[field]}.
+${exclude.length > 0 ? `Do NOT repeat any of these existing options: ${JSON.stringify(exclude)}` : ''}
+
+Return a JSON OBJECT: { "candidates": [${field === 'tags' ? '["Tag1", "Tag2", "Tag3"], ...' : '"...", ...'}] }
+`;
+
+// Same task, plus the rejected answer and what was wrong with it
+const buildRepairInstruction = (instruction, previous, errors) => `${instruction}
+YOUR PREVIOUS ANSWER WAS REJECTED:
+${JSON.stringify(previous)}
+
+Problems:
+${errors.map(error => `- ${error.message}`).join('\n')}
+
+Return the corrected JSON in the same format. Fix every problem listed above.
+`;
+
+// --- REQUESTS ---
+
+/**
+ * Calls the LLM and validates the answer; while fields still fail, sends the
+ * errors back for repair (LLM_REPAIR_ATTEMPTS times). A failed repair call keeps
+ * what was already valid instead of discarding it.
+ */
+const requestValidated = async ({ text, instruction, provider, signal, validate, merge }) => {
+    let raw = await callLLM({ text, systemInstruction: instruction, provider, signal });
+    let result = validate(raw);
+
+    for (let attempt = 0; attempt < getRepairAttempts() && result.failedFields.length > 0; attempt++) {
+        console.warn(`[LLM] Invalid output (${result.failedFields.join(', ')}), repair attempt ${attempt + 1}`, result.errors.map(e => e.message));
+        try {
+            raw = await callLLM({ text, systemInstruction: buildRepairInstruction(instruction, raw, result.errors), provider, signal });
+        } catch (error) {
+            if (signal?.aborted) throw error;
+            console.warn('[LLM] Repair call failed, keeping the valid fields', error.message);
+            break;
+        }
+        result = merge(result, validate(raw));
+    }
+    return result;
+};
+
+// Full cover metadata: { candidates, category, errors, failedFields }
+export const requestMetadata = ({ text, title, count, provider, signal }) => requestValidated({
+    text,
+    instruction: buildMetadataInstruction({ title, count }),
+    provider,
+    signal,
+    validate: (raw) => validateMetadata(raw, count),
+    merge: mergeMetadata
+});
+
+// New candidates for one field: { values, errors, failedFields }
+export const requestFieldCandidates = ({ text, field, count, exclude = [], provider, signal }) => requestValidated({
+    text,
+    instruction: buildFieldInstruction({ field, count, exclude }),
+    provider,
+    signal,
+    validate: (raw) => validateFieldCandidates(field, raw, count, exclude),
+    merge: (previous, repaired) => repaired
+});
@@ -0,0 +1,138 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { requestMetadata, validateMetadata } from './metadata.js';
+import { resetMockProvider } from './providers.js';
+
+// --- FIXTURES ---
+
+const VALID = {
+    title: ['把问题整理成商品'],
+    subtitle: ['Turn Problems Into Products'],
+    category: '职场干货',
+    tags: [['干货', '建议收藏']],
+    quote: ['问题就是财富']
+};
+
+const messagesFor = (errors, field) => errors.filter(error => error.field === field).map(error => error.message);
+
+// The mock provider answers with these, one per call
+const scriptMock = (...answers) => {
+    process.env.MOCK_LLM_RESPONSES = JSON.stringify(answers.map(answer => typeof answer === 'string' ? answer : JSON.stringify(answer)));
+    resetMockProvider();
+};
+
+// --- VALIDATION ---
+
+describe('validateMetadata', () => {
+    it('accepts a valid answer', () => {
+        const result = validateMetadata(VALID, 3);
+        expect(result.errors).toEqual([]);
+        expect(result.failedFields).toEqual([]);
+        expect(result.candidates.title).toEqual(['把问题整理成商品']);
+        expect(result.category).toBe('职场干货');
+    });
+
+    it('reports a title over 16 characters', () => {
+        const result = validateMetadata({ ...VALID, title: ['这是一个非常非常非常非常长的封面标题文字'] }, 3);
+        expect(messagesFor(result.errors, 'title')[0]).toMatch(/^title\[0\] is 20 characters \(max 16\)/);
+        expect(result.failedFields).toEqual(['title']);
+    });
+
+    it('reports a subtitle that is not English', () => {
+        const result = validateMetadata({ ...VALID, subtitle: ['把问题变成商品'] }, 3);
+        expect(messagesFor(result.errors, 'subtitle')[0]).toMatch(/^subtitle\[0\] must be English/);
+        expect(result.failedFields).toEqual(['subtitle']);
+    });
+
+    it('reports an English category', () => {
+        const result = validateMetadata({ ...VALID, category: 'Career' }, 3);
+        expect(messagesFor(result.errors, 'category')[0]).toMatch(/^category must be 2-4 Chinese characters/);
+        expect(result.category).toBe('');
+        expect(result.failedFields).toEqual(['category']);
+    });
+
+    it('reports a tag set that is too short', () => {
+        const result = validateMetadata({ ...VALID, tags: [['干货']] }, 3);
+        expect(messagesFor(result.errors, 'tags')[0]).toMatch(/^tags\[0\] needs at least 2 tags/);
+        expect(result.failedFields).toEqual(['tags']);
+    });
+
+    it('keeps the valid candidates of a field when others are rejected', () => {
+        const result = validateMetadata({ ...VALID, title: ['这是一个非常非常非常非常长的封面标题文字', '短标题'] }, 3);
+        expect(result.candidates.title).toEqual(['短标题']);
+        expect(result.errors).toHaveLength(1);
+        expect(result.failedFields).toEqual([]);
+    });
+
+    it('strips Markdown markers from candidates', () => {
+        const result = validateMetadata({ ...VALID, title: ['# 职场', '> 引用标题', '- 列表标题'] }, 3);
+        expect(result.candidates.title).toEqual(['职场', '引用标题', '列表标题']);
+        expect(result.errors).toEqual([]);
+    });
+
+    it('rejects a root that is not an object', () => {
+        for (const raw of ['just text', ['a', 'b'], null, 42]) {
+            const result = validateMetadata(raw, 3);
+            expect(result.errors).toEqual([{ field: '(root)', message: expect.stringContaining('Expected a JSON object') }]);
+            expect(result.failedFields).toEqual(['title', 'subtitle', 'category', 'tags', 'quote']);
+            expect(result.candidates).toEqual({ title: [], subtitle: [], quote: [], tags: [] });
+        }
+    });
+});
+
+// --- REPAIR ROUNDS ---
+
+describe('requestMetadata with a stubbed LLM', () => {
+    beforeEach(() => {
+        process.env.LLM_REPAIR_ATTEMPTS = '1';
+        process.env.LLM_MAX_RETRIES = '0';
+        vi.spyOn(console, 'warn').mockImplementation(() => {});
+        vi.spyOn(console, 'error').mockImplementation(() => {});
+    });
+
+    afterEach(() => {
+        delete process.env.MOCK_LLM_RESPONSES;
+        delete process.env.LLM_REPAIR_ATTEMPTS;
+        delete process.env.LLM_MAX_RETRIES;
+        vi.restoreAllMocks();
+    });
+
+    const request = () => requestMetadata({ text: '正文', count: 3, provider: 'mock' });
+
+    it('repairs only the failing fields and keeps the valid ones', async () => {
+        scriptMock(
+            { ...VALID, title: ['这是一个非常非常非常非常长的封面标题文字'], category: 'Career' },
+            // The repair fixes title and category but also returns a different (invalid) subtitle and other tags
+            { ...VALID, title: ['修好的标题'], category: '思维认知', subtitle: ['中文副标题'], tags: [['换掉的', '标签']] }
+        );
+        const result = await request();
+        expect(result.candidates.title).toEqual(['修好的标题']);
+        expect(result.category).toBe('思维认知');
+        expect(result.candidates.subtitle).toEqual(VALID.subtitle);
+        expect(result.candidates.tags).toEqual(VALID.tags);
+        expect(result.failedFields).toEqual([]);
+        expect(result.errors).toEqual([]);
+    });
+
+    it('keeps what was valid when the repair call fails', async () => {
+        scriptMock({ ...VALID, title: ['这是一个非常非常非常非常长的封面标题文字'] }, 'not json');
+        const result = await request();
+        expect(result.candidates.subtitle).toEqual(VALID.subtitle);
+        expect(result.candidates.quote).toEqual(VALID.quote);
+        expect(result.category).toBe('职场干货');
+        expect(result.candidates.title).toEqual([]);
+        expect(result.failedFields).toEqual(['title']);
+    });
+
+    it('titles a Markdown article from its text, not its markers', async () => {
+        resetMockProvider();
+        const result = await requestMetadata({ text: '# 职场\n把问题整理成商品。', count: 3, provider: 'mock' });
+        expect(result.candidates.title[0]).toBe('职场');
+    });
+
+    it('sends a non-object root back for repair', async () => {
+        scriptMock(['a', 'b'], VALID);
+        const result = await request();
+        expect(result.failedFields).toEqual([]);
+        expect(result.candidates.title).toEqual(VALID.title);
+    });
+});
@@ -0,0 +1,226 @@
+import OpenAI from 'openai';
+import { toPlainText } from './localMetadata.js';
+
+// --- CONFIGURATION ---
+
+// Every provider speaks the OpenAI chat-completions protocol (Gemini through its
+// OpenAI-compatible endpoint), so one client covers all of them.
+const PROVIDERS = {
+    deepseek: {
+        label: 'DeepSeek',
+        baseURL: () => process.env.DEEPSEEK_BASE_URL || 'https://api.deepseek.com',
+        apiKey: () => process.env.DEEPSEEK_API_KEY,
+        model: () => process.env.DEEPSEEK_MODEL || 'deepseek-chat',
+        jsonMode: true
+    },
+    openai: {
+        label: 'OpenAI-compatible',
+        baseURL: () => process.env.OPENAI_BASE_URL || 'https://api.openai.com/v1',
+        apiKey: () => process.env.OPENAI_API_KEY,
+        model: () => process.env.OPENAI_MODEL || 'gpt-4o-mini',
+        jsonMode: true
+    },
+    local: {
+        label: 'Local (Ollama / llama.cpp)',
+        baseURL: () => process.env.LOCAL_LLM_BASE_URL || 'http://localhost:11434/v1',
+        apiKey: () => process.env.LOCAL_LLM_API_KEY || 'local', // Local servers ignore the key but the SDK requires one
+        model: () => process.env.LOCAL_LLM_MODEL || 'qwen2.5:7b',
+        jsonMode: false // Many local servers reject response_format
+    },
+    gemini: {
+        label: 'Gemini',
+        baseURL: () => process.env.GEMINI_BASE_URL || 'https://generativelanguage.googleapis.com/v1beta/openai/',
+        apiKey: () => process.env.GEMINI_API_KEY,
+        model: () => process.env.GEMINI_MODEL || 'gemini-2.0-flash',
+        jsonMode: true
+    },
+    mock: {
+        label: 'Mock (offline)',
+        mock: true
+    }
+};
+
+const envNumber = (name, fallback) => {
+    const value = Number(process.env[name]);
+    return Number.isFinite(value) && value >= 0 ? value : fallback;
+};
+
+const getDefaultProvider = () => (process.env.LLM_PROVIDER || 'deepseek').trim().toLowerCase();
+const getTimeoutMs = () => envNumber('LLM_TIMEOUT_MS', 60000);
+const getMaxRetries = () => envNumber('LLM_MAX_RETRIES', 2);
+const RETRY_BASE_DELAY_MS = 500;
+
+// --- ERRORS ---
+
+export class ProviderError extends Error {
+    constructor(message, { provider, status, retryable = false, isConfigError = false } = {}) {
+        super(message);
+        this.name = 'ProviderError';
+        this.provider = provider;
+        this.status = status;
+        this.retryable = retryable;
+        this.isConfigError = isConfigError; // Unknown provider or missing key; the request can't succeed as sent
+    }
+}
+
+const isRetryable = (error) => {
+    if (error?.name === 'AbortError' || error instanceof OpenAI.APIUserAbortError) return false;
+    if (error instanceof OpenAI.APIConnectionTimeoutError || error instanceof OpenAI.APIConnectionError) return true;
+    const status = error?.status;
+    return status === 408 || status === 409 || status === 429 || (typeof status === 'number' && status >= 500);
+};
+
+// --- MOCK PROVIDER ---
+
+// Deterministic canned answer for offline development. MOCK_LLM_RESPONSE may hold a
+// JSON string to return verbatim instead, and MOCK_LLM_RESPONSES a JSON array of such
+// strings returned in order (the last one repeats), e.g. to exercise repair prompts.
+// MOCK_LLM_DELAY_MS simulates a slow model.
+// Each call numbers its candidates so single-field regeneration yields new options.
+let mockCallCount = 0;
+
+// Starts MOCK_LLM_RESPONSES over from its first answer (for tests)
+export const resetMockProvider = () => {
+    mockCallCount = 0;
+};
+
+const callMock = async (messages, signal) => {
+    const [system, user] = [messages[0].content, messages[messages.length - 1].content];
+    const delay = envNumber('MOCK_LLM_DELAY_MS', 0);
+    if (delay > 0) await sleep(delay, signal);
+    if (process.env.MOCK_LLM_RESPONSE) {
+        return process.env.MOCK_LLM_RESPONSE;
+    }
+
+    const call = ++mockCallCount;
+    if (process.env.MOCK_LLM_RESPONSES) {
+        const script = JSON.parse(process.env.MOCK_LLM_RESPONSES);
+        return script[Math.min(call, script.length) - 1];
+    }
+    if (system.includes('{ "text":')) {
+        // Paragraph rewrite: echo with a visible change so the diff view has something to show
+        return JSON.stringify({ text: `✨ ${user.replace(/[。.]$/, '')}！` });
+    }
+    // Title from the article text, not its Markdown ("# 职场" → "职场")
+    const firstLine = toPlainText(user).split(/\n+/).find(line => line.trim()) || '';
+    return JSON.stringify({
+        title: [firstLine.trim().slice(0, 12) || '离线模拟标题', `离线模拟标题 ${call}-2`, `离线模拟标题 ${call}-3`],
+        subtitle: ['Offline Mock Subtitle', `Mock Subtitle Take ${call}`],
+        category: '干货分享',
+        tags: [['干货', '建议收藏', '离线模式'], ['模拟', `第${call}组`]],
+        quote: ['你遇到的所有问题，都是你的财富。', `离线金句第${call}条`]
+    });
+};
+
+// --- HELPERS ---
+
+const sleep = (ms, signal) => new Promise((resolve, reject) => {
+    const timer = setTimeout(resolve, ms);
+    signal?.addEventListener('abort', () => {
+        clearTimeout(timer);
+        reject(signal.reason || new Error('Aborted'));
+    }, { once: true });
+});
+
+// Models sometimes wrap JSON in markdown fences or an object like { "slides": [] }.
+export const parseJsonResponse = (content) => {
+    const cleaned = String(content || '').trim().replace(/^```(?:json)?\s*/i, '').replace(/```$/, '').trim();
+    const parsed = JSON.parse(cleaned);
+
+    if (!Array.isArray(parsed)) {
+        // simple heuristic
+        const values = Object.values(parsed);
+        if (values.length === 1 && Array.isArray(values[0])) return values[0];
+        return parsed;
+    }
+    return parsed;
+};
+
+// Provider id a request will use, whether or not it exists
+export const resolveProviderId = (requested) => (requested || getDefaultProvider()).trim().toLowerCase();
+
+const resolveProvider = (requested) => {
+    const id = resolveProviderId(requested);
+    const provider = PROVIDERS[id];
+    if (!provider) {
+        throw new ProviderError(`Unknown LLM provider "${id}". Available: ${Object.keys(PROVIDERS).join(', ')}`, {
+            provider: id,
+            isConfigError: true
+        });
+    }
+    return { id, provider };
+};
+
+const requestCompletion = async (id, provider, messages, signal) => {
+    if (provider.mock) {
+        return callMock(messages, signal);
+    }
+
+    const apiKey = provider.apiKey() ? provider.apiKey().trim() : '';
+    if (!apiKey) throw new ProviderError(`Missing API key for provider "${id}"`, { provider: id, isConfigError: true });
+
+    const client = new OpenAI({
+        baseURL: provider.baseURL(),
+        apiKey,
+        timeout: getTimeoutMs(),
+        maxRetries: 0 // Retries are handled below so every provider backs off the same way
+    });
+
+    const completion = await client.chat.completions.create({
+        messages,
+        model: provider.model(),
+        ...(provider.jsonMode ? { response_format: { type: 'json_object' } } : {})
+    }, { signal });
+
+    return completion.choices[0]?.message?.content;
+};
+
+// --- PUBLIC API ---
+
+export const listProviders = () => {
+    const defaultId = getDefaultProvider();
+    return Object.entries(PROVIDERS).map(([id, provider]) => ({
+        id,
+        label: provider.label,
+        model: provider.mock ? 'mock' : provider.model(),
+        configured: Boolean(provider.mock || id === 'local' || (provider.apiKey() || '').trim()),
+        isDefault: id === defaultId
+    }));
+};
+
+/**
+ * Sends one system + user prompt to the selected provider and returns the parsed JSON.
+ * Retries transient failures with exponential backoff; `signal` aborts the request.
+ */
+export const callLLM = async ({ text, systemInstruction, provider: requested, signal }) => {
+    const { id, provider } = resolveProvider(requested);
+    const messages = [
+        { role: 'system', content: systemInstruction + '\n\nResponse MUST be valid JSON.' },
+        { role: 'user', content: text }
+    ];
+    const maxRetries = getMaxRetries();
+
+    for (let attempt = 0; ; attempt++) {
+        try {
+            const content = await requestCompletion(id, provider, messages, signal);
+            try {
+                return parseJsonResponse(content);
+            } catch (e) {
+                throw new ProviderError(`Provider "${id}" returned invalid JSON`, { provider: id, retryable: true });
+            }
+        } catch (error) {
+            const retryable = error instanceof ProviderError ? error.retryable : isRetryable(error);
+            if (signal?.aborted || !retryable || attempt >= maxRetries) {
+                console.error(`[LLM] ${id} failed (attempt ${attempt + 1})`, error?.message || error);
+                if (error instanceof ProviderError || signal?.aborted) throw error;
+                throw new ProviderError(`Failed to call provider "${id}": ${error?.message || 'unknown error'}`, {
+                    provider: id,
+                    status: error?.status
+                });
+            }
+            const delay = RETRY_BASE_DELAY_MS * 2 ** attempt + Math.random() * 250;
+            console.warn(`[LLM] ${id} attempt ${attempt + 1} failed, retrying in ${Math.round(delay)}ms`);
+            await sleep(delay, signal);
+        }
+    }
+};
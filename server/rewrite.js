@@ -0,0 +1,43 @@
+// --- CONFIGURATION ---
+
+const LANGUAGES = {
+    en: 'natural, fluent English',
+    zh: '简体中文 (Simplified Chinese), in a Xiaohongshu tone'
+};
+
+// What each rewrite mode asks of the model. The paragraph must keep its markdown
+// (## headings, **bold**, table rows) so it renders the same way afterwards.
+const MODE_GUIDES = {
+    shorten: 'Make it noticeably SHORTER (about half the length) while keeping every key point and the original language.',
+    emoji: 'Keep the wording, but add a few fitting emoji (at line starts or after key phrases). Do not overdo it: at most one emoji per sentence.',
+    punchier: 'Make it PUNCHIER: shorter sentences, stronger verbs, a hook-like rhythm suited to Xiaohongshu. Keep the meaning and the original language.',
+    translate: (language) => `Translate it into ${LANGUAGES[language] || LANGUAGES.en}. Keep names, numbers and formatting.`
+};
+
+export const REWRITE_MODES = Object.keys(MODE_GUIDES);
+export const REWRITE_LANGUAGES = Object.keys(LANGUAGES);
+
+// --- PROMPTS ---
+
+export const buildRewriteInstruction = ({ mode, language }) => {
+    const guide = typeof MODE_GUIDES[mode] === 'function' ? MODE_GUIDES[mode](language) : MODE_GUIDES[mode];
+    return `
+You are an editor for "Little Red Book" (Xiaohongshu) carousel posts.
+Rewrite the paragraph the user sends. ${guide}
+
+RULES:
+- Keep markdown markers such as "## ", "### ", "**bold**", "*italic*", "==highlight==", "~~strike~~", "{{badge}}", "- " / "- [ ] " list items, "> [!tip]" callouts and table pipes "|".
+- Do not add introductions, explanations or quotes around the result.
+- Return a JSON OBJECT: { "text": "the rewritten paragraph" }
+`;
+};
+
+// --- RESULT ---
+
+// Accepts { text } or a bare string; returns null when nothing usable came back
+export const readRewriteResult = (raw) => {
+    const value = typeof raw === 'string' ? raw : raw?.text ?? raw?.rewritten ?? raw?.result;
+    if (typeof value !== 'string') return null;
+    const text = value.trim();
+    return text.length > 0 ? text : null;
+};
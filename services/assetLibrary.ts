@@ -0,0 +1,64 @@
+import { ImageAsset } from '../types';
+import { ASSET_STORE, withStore } from './database';
+import { imageToDataUrl } from './imageData';
+
+// --- HELPERS ---
+
+const normalizeTags = (tags: string[]) =>
+  [...new Set(tags.map(tag => tag.trim().replace(/^#/, '')).filter(Boolean))];
+
+// "风景, #极简，夜景" -> ['风景', '极简', '夜景']
+export const parseTags = (value: string) => normalizeTags(value.split(/[,，]/));
+
+// --- PUBLIC API ---
+
+export const listAssets = async (): Promise<ImageAsset[]> => {
+  const assets = await withStore<ImageAsset[]>(ASSET_STORE, 'readonly', store => store.getAll());
+  return assets.sort((a, b) => b.createdAt - a.createdAt);
+};
+
+// Stores an uploaded or pasted image; it is scaled down first like any other slide image
+export const addAsset = async (blob: Blob, tags: string[] = []): Promise<ImageAsset> => {
+  const now = Date.now();
+  const fileName = blob instanceof File ? blob.name.replace(/\.[a-z0-9]+$/i, '') : '';
+  const asset: ImageAsset = {
+    id: `asset-${now}-${Math.random().toString(36).slice(2, 8)}`,
+    name: fileName || `Pasted ${new Date(now).toLocaleString()}`,
+    dataUrl: await imageToDataUrl(blob),
+    tags: normalizeTags(tags),
+    createdAt: now,
+  };
+  await withStore(ASSET_STORE, 'readwrite', store => store.put(asset));
+  return asset;
+};
+
+export const updateAsset = async (asset: ImageAsset): Promise<ImageAsset> => {
+  const saved = { ...asset, name: asset.name.trim() || 'Untitled', tags: normalizeTags(asset.tags) };
+  await withStore(ASSET_STORE, 'readwrite', store => store.put(saved));
+  return saved;
+};
+
+export const deleteAsset = async (id: string): Promise<void> => {
+  await withStore(ASSET_STORE, 'readwrite', store => store.delete(id));
+};
+
+// Every word of the query must appear in the name or in one of the tags
+export const searchAssets = (assets: ImageAsset[], query: string): ImageAsset[] => {
+  const terms = query.toLowerCase().split(/\s+/).filter(Boolean);
+  if (terms.length === 0) return assets;
+  return assets.filter(asset => {
+    const haystack = [asset.name, ...asset.tags].join(' ').toLowerCase();
+    return terms.every(term => haystack.includes(term));
+  });
+};
+
+// A random library image, or null when the library is empty or unreadable
+export const getRandomAsset = async (): Promise<ImageAsset | null> => {
+  try {
+    const assets = await listAssets();
+    return assets.length > 0 ? assets[Math.floor(Math.random() * assets.length)] : null;
+  } catch (e) {
+    console.warn('[Assets] Failed to read the asset library', e);
+    return null;
+  }
+};
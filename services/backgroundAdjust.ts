@@ -0,0 +1,76 @@
+import React from 'react';
+import { BackgroundAdjust, GradientDirection } from '../types';
+
+// --- CONFIGURATION ---
+
+type NumericField = 'focusX' | 'focusY' | 'zoom' | 'blur' | 'brightness' | 'overlayOpacity' | 'gradientStrength';
+
+// Slider ranges in the editor, also enforced on project import
+export const ADJUST_RANGES: Record<NumericField, { min: number; max: number; step: number; default: number }> = {
+  focusX: { min: 0, max: 100, step: 1, default: 50 },
+  focusY: { min: 0, max: 100, step: 1, default: 50 },
+  zoom: { min: 1, max: 3, step: 0.05, default: 1 },
+  blur: { min: 0, max: 20, step: 1, default: 0 },
+  brightness: { min: 40, max: 160, step: 5, default: 100 },
+  overlayOpacity: { min: 0, max: 0.9, step: 0.05, default: 0 },
+  gradientStrength: { min: 0, max: 1, step: 0.05, default: 0.8 },
+};
+
+export const GRADIENT_DIRECTIONS: GradientDirection[] = ['auto', 'none', 'top', 'bottom', 'left', 'right'];
+
+const DEFAULT_OVERLAY_COLOR = '#000000';
+
+// The side a gradient darkens -> CSS direction the gradient fades towards
+const FADE_TOWARDS: Record<'top' | 'bottom' | 'left' | 'right', string> = {
+  top: 'bottom',
+  bottom: 'top',
+  left: 'right',
+  right: 'left',
+};
+
+// --- HELPERS ---
+
+const valueOf = (adjust: BackgroundAdjust | undefined, field: NumericField) => {
+  const value = adjust?.[field];
+  const range = ADJUST_RANGES[field];
+  return typeof value === 'number' ? Math.min(range.max, Math.max(range.min, value)) : range.default;
+};
+
+export const isAdjusted = (adjust: BackgroundAdjust | undefined) =>
+  !!adjust && Object.values(adjust).some(value => value !== undefined);
+
+// --- STYLES ---
+
+/**
+ * Inline styles for the cover <img>. Zoom scales around the focal point;
+ * blurred images are scaled up a little so the soft edges stay outside the frame.
+ */
+export const imageStyle = (adjust: BackgroundAdjust | undefined): React.CSSProperties => {
+  const focus = `${valueOf(adjust, 'focusX')}% ${valueOf(adjust, 'focusY')}%`;
+  const blur = valueOf(adjust, 'blur');
+  const brightness = valueOf(adjust, 'brightness');
+  const scale = valueOf(adjust, 'zoom') * (1 + blur / 40);
+  const filters = [blur > 0 ? `blur(${blur}px)` : '', brightness !== 100 ? `brightness(${brightness}%)` : ''].filter(Boolean);
+
+  return {
+    objectFit: 'cover',
+    objectPosition: focus,
+    transform: scale !== 1 ? `scale(${scale})` : undefined,
+    transformOrigin: focus,
+    filter: filters.length > 0 ? filters.join(' ') : undefined,
+  };
+};
+
+export const overlayStyle = (adjust: BackgroundAdjust | undefined): React.CSSProperties | null => {
+  const opacity = valueOf(adjust, 'overlayOpacity');
+  if (opacity <= 0) return null;
+  return { backgroundColor: adjust?.overlayColor || DEFAULT_OVERLAY_COLOR, opacity };
+};
+
+// null for 'auto' (the cover style decides) and 'none'
+export const gradientStyle = (adjust: BackgroundAdjust | undefined): React.CSSProperties | null => {
+  const direction = adjust?.gradient || 'auto';
+  if (direction === 'auto' || direction === 'none') return null;
+  const strength = valueOf(adjust, 'gradientStrength');
+  return { backgroundImage: `linear-gradient(to ${FADE_TOWARDS[direction]}, rgba(0, 0, 0, ${strength}), rgba(0, 0, 0, 0) 75%)` };
+};
@@ -0,0 +1,194 @@
+import { BrandingConfig, BrandProfile, PromoDefaults } from '../types';
+import { BRAND_PROFILE_STORE, withStore } from './database';
+import { isRecord, isString, isStringArray } from './guards';
+import { ImportIssue, validateBranding } from './projectFile';
+import { normalizeBranding } from './projectStore';
+
+// --- CONFIGURATION ---
+
+const FILE_FORMAT = 'rednote-brand-profiles';
+const FILE_FORMAT_VERSION = 1;
+const ACTIVE_PROFILE_KEY = 'rednote:activeBrandProfileId';
+
+const PROMO_FIELDS: (keyof PromoDefaults)[] = ['headline', 'handle', 'cta', 'qrCode'];
+
+interface BrandProfileFile {
+  format: typeof FILE_FORMAT;
+  formatVersion: number;
+  exportedAt: number;
+  profiles: BrandProfile[];
+}
+
+// --- HELPERS ---
+
+const normalizePromo = (raw: unknown): PromoDefaults => {
+  const promo: PromoDefaults = {};
+  if (!isRecord(raw)) return promo;
+  for (const field of PROMO_FIELDS) {
+    const value = raw[field];
+    if (isString(value)) promo[field] = value;
+  }
+  return promo;
+};
+
+// Fills in anything missing so profiles saved by older versions still load
+const normalizeProfile = (raw: unknown, fallbackBranding: BrandingConfig): BrandProfile => {
+  const profile = isRecord(raw) ? raw : {};
+  const now = Date.now();
+  return {
+    id: isString(profile.id) ? profile.id : '',
+    name: isString(profile.name) && profile.name.trim() ? profile.name : 'Untitled brand',
+    branding: normalizeBranding(profile.branding, fallbackBranding),
+    defaultTags: Array.isArray(profile.defaultTags) ? profile.defaultTags.filter(isString) : [],
+    promo: normalizePromo(profile.promo),
+    createdAt: typeof profile.createdAt === 'number' ? profile.createdAt : now,
+    updatedAt: typeof profile.updatedAt === 'number' ? profile.updatedAt : now,
+  };
+};
+
+// --- PUBLIC API ---
+
+export const createBrandProfile = (fields: Omit<BrandProfile, 'id' | 'createdAt' | 'updatedAt'>): BrandProfile => {
+  const now = Date.now();
+  return {
+    ...fields,
+    id: `brand-${now}-${Math.random().toString(36).slice(2, 8)}`,
+    createdAt: now,
+    updatedAt: now,
+  };
+};
+
+export const listBrandProfiles = async (fallbackBranding: BrandingConfig): Promise<BrandProfile[]> => {
+  const raws = await withStore<unknown[]>(BRAND_PROFILE_STORE, 'readonly', store => store.getAll());
+  return raws
+    .map(raw => normalizeProfile(raw, fallbackBranding))
+    .sort((a, b) => a.name.localeCompare(b.name));
+};
+
+export const saveBrandProfile = async (profile: BrandProfile): Promise<BrandProfile> => {
+  const saved = { ...profile, updatedAt: Date.now() };
+  await withStore(BRAND_PROFILE_STORE, 'readwrite', store => store.put(saved));
+  return saved;
+};
+
+export const deleteBrandProfile = async (id: string): Promise<void> => {
+  await withStore(BRAND_PROFILE_STORE, 'readwrite', store => store.delete(id));
+  if (getActiveBrandProfileId() === id) {
+    setActiveBrandProfileId(null);
+  }
+};
+
+export const getActiveBrandProfileId = (): string | null => {
+  try {
+    return localStorage.getItem(ACTIVE_PROFILE_KEY);
+  } catch {
+    return null;
+  }
+};
+
+export const setActiveBrandProfileId = (id: string | null) => {
+  try {
+    if (id) localStorage.setItem(ACTIVE_PROFILE_KEY, id);
+    else localStorage.removeItem(ACTIVE_PROFILE_KEY);
+  } catch {
+    // Storage may be unavailable (private mode); the switcher just starts empty next time.
+  }
+};
+
+// --- IMPORT / EXPORT ---
+
+export const exportBrandProfiles = (profiles: BrandProfile[]): { blob: Blob; fileName: string } => {
+  const file: BrandProfileFile = {
+    format: FILE_FORMAT,
+    formatVersion: FILE_FORMAT_VERSION,
+    exportedAt: Date.now(),
+    profiles,
+  };
+  return {
+    blob: new Blob([JSON.stringify(file, null, 2)], { type: 'application/json' }),
+    fileName: profiles.length === 1
+      ? `${profiles[0].name.replace(/[\\/:*?"<>|\s]+/g, '_').slice(0, 60) || 'brand'}.brand.json`
+      : 'brand-profiles.json',
+  };
+};
+
+// Checks one profile and returns a cleaned copy; invalid optional fields are dropped and reported.
+const validateProfile = (raw: unknown, index: number, issues: ImportIssue[]): Partial<BrandProfile> | null => {
+  const path = `profiles[${index}]`;
+  if (!isRecord(raw)) {
+    issues.push({ path, message: 'Profile is not an object and was skipped' });
+    return null;
+  }
+
+  const profile = { ...raw };
+  if (!isString(profile.name) || !profile.name.trim()) {
+    issues.push({ path: `${path}.name`, message: 'Missing name, "Untitled brand" was used' });
+    delete profile.name;
+  }
+  profile.branding = validateBranding(raw.branding, `${path}.branding`, issues);
+  if (profile.defaultTags !== undefined && !isStringArray(profile.defaultTags)) {
+    issues.push({ path: `${path}.defaultTags`, message: 'Default tags must be a list of text' });
+    delete profile.defaultTags;
+  }
+  if (profile.promo !== undefined) {
+    if (!isRecord(profile.promo)) {
+      issues.push({ path: `${path}.promo`, message: 'Promo text must be an object' });
+      delete profile.promo;
+    } else {
+      const promo = { ...profile.promo };
+      profile.promo = promo;
+      for (const field of PROMO_FIELDS) {
+        if (promo[field] !== undefined && !isString(promo[field])) {
+          issues.push({ path: `${path}.promo.${field}`, message: 'Must be text' });
+          delete promo[field];
+        }
+      }
+    }
+  }
+  return profile;
+};
+
+/**
+ * Reads an exported profiles file (or a single bare profile) and saves every
+ * usable profile as a new one, so importing never overwrites a local profile.
+ */
+export const importBrandProfiles = async (
+  file: File,
+  fallbackBranding: BrandingConfig
+): Promise<{ profiles: BrandProfile[]; issues: ImportIssue[] }> => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(await file.text());
+  } catch (e) {
+    throw new Error(`Could not read ${file.name}: ${e instanceof Error ? e.message : 'unknown error'}`);
+  }
+
+  if (!isRecord(parsed)) {
+    throw new Error('Invalid brand profile file: not a JSON object');
+  }
+  if (parsed.format !== undefined && parsed.format !== FILE_FORMAT) {
+    throw new Error(`Unsupported file format "${parsed.format}"`);
+  }
+  if (typeof parsed.formatVersion === 'number' && parsed.formatVersion > FILE_FORMAT_VERSION) {
+    throw new Error('This file was exported by a newer version of RedNote Maker');
+  }
+
+  const rawProfiles = parsed.format === FILE_FORMAT ? parsed.profiles : [parsed];
+  if (!Array.isArray(rawProfiles)) {
+    throw new Error('Invalid brand profile file: "profiles" must be a list');
+  }
+
+  const issues: ImportIssue[] = [];
+  const profiles: BrandProfile[] = [];
+  for (const [i, raw] of rawProfiles.entries()) {
+    const validated = validateProfile(raw, i, issues);
+    if (!validated) continue;
+    const { id: _id, createdAt: _c, updatedAt: _u, ...fields } = normalizeProfile(validated, fallbackBranding);
+    profiles.push(await saveBrandProfile(createBrandProfile(fields)));
+  }
+  if (profiles.length === 0) {
+    throw new Error('Invalid brand profile file: it contains no usable profiles');
+  }
+
+  return { profiles, issues };
+};
@@ -0,0 +1,55 @@
+// --- CONFIGURATION ---
+
+const DB_NAME = 'rednote-maker';
+const DB_VERSION = 3;
+
+export const PROJECT_STORE = 'projects';
+export const BRAND_PROFILE_STORE = 'brandProfiles'; // Added in v2
+export const ASSET_STORE = 'assets'; // Added in v3
+
+// Every object store, keyed by `id`. Upgrades only ever add stores.
+const STORES = [PROJECT_STORE, BRAND_PROFILE_STORE, ASSET_STORE];
+
+// --- DATABASE ---
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (dbPromise) return dbPromise;
+
+  dbPromise = new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      for (const name of STORES) {
+        if (!db.objectStoreNames.contains(name)) {
+          db.createObjectStore(name, { keyPath: 'id' });
+        }
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => {
+      dbPromise = null;
+      reject(request.error || new Error('Failed to open project database'));
+    };
+  });
+
+  return dbPromise;
+};
+
+// Wraps a single-store transaction so callers can just await the request result.
+export const withStore = async <T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> => {
+  const db = await openDatabase();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(storeName, mode);
+    const request = run(tx.objectStore(storeName));
+    tx.oncomplete = () => resolve(request.result);
+    tx.onerror = () => reject(tx.error || new Error('Project database transaction failed'));
+    tx.onabort = () => reject(tx.error || new Error('Project database transaction aborted'));
+  });
+};
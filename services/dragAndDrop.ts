@@ -0,0 +1,42 @@
+import React from 'react';
+
+// Custom MIME types keep our drags from being confused with files or text dropped from outside.
+const SLIDE_MIME = 'application/x-rednote-slide';
+const PARAGRAPH_MIME = 'application/x-rednote-paragraph';
+
+export interface ParagraphDragPayload {
+  slideId: string;
+  index: number;
+}
+
+export const setSlideDrag = (e: React.DragEvent, slideIndex: number) => {
+  e.dataTransfer.setData(SLIDE_MIME, String(slideIndex));
+  e.dataTransfer.effectAllowed = 'move';
+};
+
+export const setParagraphDrag = (e: React.DragEvent, payload: ParagraphDragPayload) => {
+  e.dataTransfer.setData(PARAGRAPH_MIME, JSON.stringify(payload));
+  e.dataTransfer.effectAllowed = 'move';
+};
+
+// Data is only readable on drop; during dragover only the types list is available.
+export const isSlideDrag = (e: React.DragEvent) => e.dataTransfer.types.includes(SLIDE_MIME);
+export const isParagraphDrag = (e: React.DragEvent) => e.dataTransfer.types.includes(PARAGRAPH_MIME);
+
+export const getSlideDrag = (e: React.DragEvent): number | null => {
+  const raw = e.dataTransfer.getData(SLIDE_MIME);
+  if (raw === '') return null;
+  const index = Number(raw);
+  return Number.isInteger(index) ? index : null;
+};
+
+export const getParagraphDrag = (e: React.DragEvent): ParagraphDragPayload | null => {
+  const raw = e.dataTransfer.getData(PARAGRAPH_MIME);
+  if (!raw) return null;
+  try {
+    const parsed = JSON.parse(raw);
+    return typeof parsed.slideId === 'string' && Number.isInteger(parsed.index) ? parsed : null;
+  } catch {
+    return null;
+  }
+};
@@ -0,0 +1,231 @@
+import { BrandingConfig, GeneratedBackground, GeneratedBackgroundKind, SlideData, Theme } from '../types';
+import { mixColors } from './theme';
+
+// --- CONFIGURATION ---
+
+// Drawn at slide size; cover styles crop it like a photo
+const WIDTH = 450;
+const HEIGHT = 600;
+
+// <img> SVGs cannot load web fonts, so the typography background uses installed CJK fonts
+const TYPE_FONT = "'PingFang SC', 'Noto Sans SC', 'Microsoft YaHei', sans-serif";
+
+export const GENERATED_BACKGROUND_KINDS: { kind: GeneratedBackgroundKind; label: string }[] = [
+  { kind: 'gradient', label: 'Gradient' },
+  { kind: 'mesh', label: 'Mesh' },
+  { kind: 'geometric', label: 'Shapes' },
+  { kind: 'paper', label: 'Paper' },
+  { kind: 'typography', label: 'Type' },
+];
+
+// --- RANDOMNESS ---
+
+type Random = () => number;
+
+// mulberry32: tiny and gives the same sequence for the same seed in every browser
+const createRandom = (seed: number): Random => {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+const between = (random: Random, min: number, max: number) => min + random() * (max - min);
+const pick = <T,>(random: Random, items: T[]): T => items[Math.floor(random() * items.length)];
+
+export const randomSeed = () => Math.floor(Math.random() * 2 ** 32);
+
+// FNV-1a; gives slides without a chosen seed (e.g. by id) a stable one
+export const seedFromString = (value: string) => {
+  let hash = 2166136261;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 16777619);
+  }
+  return hash >>> 0;
+};
+
+// --- PALETTE ---
+
+interface Palette {
+  base: string;
+  accent: string;
+  soft: string; // Accent washed into the background
+  deep: string; // Accent darkened towards the heading color
+  highlight: string;
+}
+
+const paletteFor = (theme: Theme): Palette => ({
+  base: theme.background,
+  accent: theme.accent,
+  soft: mixColors(theme.accent, theme.background, 0.35),
+  deep: mixColors(theme.accent, theme.heading, 0.55),
+  highlight: theme.highlight,
+});
+
+const escapeXml = (text: string) => text.replace(/[&<>"']/g, c => `&#${c.charCodeAt(0)};`);
+
+// One decimal keeps the markup (and the data URL) short
+const n = (value: number) => Math.round(value * 10) / 10;
+
+// --- KINDS ---
+
+const drawGradient = (random: Random, p: Palette) => {
+  const stops = [p.deep, p.accent, pick(random, [p.highlight, p.soft])];
+  const glow = { x: n(between(random, 0, WIDTH)), y: n(between(random, 0, HEIGHT * 0.6)), r: n(between(random, 180, 320)) };
+  return `
+    <defs>
+      <linearGradient id="g" gradientTransform="rotate(${n(between(random, 0, 360))} 0.5 0.5)">
+        ${stops.map((color, i) => `<stop offset="${i / (stops.length - 1)}" stop-color="${color}"/>`).join('')}
+      </linearGradient>
+      <radialGradient id="glow"><stop offset="0" stop-color="${p.highlight}" stop-opacity="0.55"/><stop offset="1" stop-color="${p.highlight}" stop-opacity="0"/></radialGradient>
+    </defs>
+    <rect width="${WIDTH}" height="${HEIGHT}" fill="url(#g)"/>
+    <circle cx="${glow.x}" cy="${glow.y}" r="${glow.r}" fill="url(#glow)"/>`;
+};
+
+const drawMesh = (random: Random, p: Palette) => {
+  const colors = [p.accent, p.highlight, p.soft, p.deep];
+  const blobs = Array.from({ length: 5 }, () =>
+    `<circle cx="${n(between(random, -50, WIDTH + 50))}" cy="${n(between(random, -50, HEIGHT + 50))}" r="${n(between(random, 140, 260))}" fill="${pick(random, colors)}" opacity="${n(between(random, 0.55, 0.95))}"/>`
+  );
+  return `
+    <defs><filter id="blur" x="-50%" y="-50%" width="200%" height="200%"><feGaussianBlur stdDeviation="70"/></filter></defs>
+    <rect width="${WIDTH}" height="${HEIGHT}" fill="${mixColors(p.accent, p.base, 0.2)}"/>
+    <g filter="url(#blur)">${blobs.join('')}</g>`;
+};
+
+const drawGeometric = (random: Random, p: Palette) => {
+  const dark = random() < 0.5;
+  const background = dark ? p.deep : p.base;
+  const colors = dark ? [p.accent, p.highlight, p.base] : [p.accent, p.highlight, p.deep];
+  const size = pick(random, [75, 90, 112.5]);
+  const shapes: string[] = [];
+
+  for (let y = 0; y < HEIGHT; y += size) {
+    for (let x = 0; x < WIDTH; x += size) {
+      const color = pick(random, colors);
+      const opacity = n(between(random, 0.35, 0.9));
+      const cx = n(x + size / 2);
+      const cy = n(y + size / 2);
+      const r = n(size * 0.38);
+      switch (pick(random, ['circle', 'square', 'triangle', 'ring', 'quarter', 'empty'])) {
+        case 'circle':
+          shapes.push(`<circle cx="${cx}" cy="${cy}" r="${r}" fill="${color}" opacity="${opacity}"/>`);
+          break;
+        case 'square':
+          shapes.push(`<rect x="${n(x + size * 0.15)}" y="${n(y + size * 0.15)}" width="${n(size * 0.7)}" height="${n(size * 0.7)}" fill="${color}" opacity="${opacity}"/>`);
+          break;
+        case 'triangle':
+          shapes.push(`<polygon points="${n(x + size * 0.15)},${n(y + size * 0.85)} ${cx},${n(y + size * 0.15)} ${n(x + size * 0.85)},${n(y + size * 0.85)}" fill="${color}" opacity="${opacity}"/>`);
+          break;
+        case 'ring':
+          shapes.push(`<circle cx="${cx}" cy="${cy}" r="${n(r * 0.8)}" fill="none" stroke="${color}" stroke-width="${n(size * 0.1)}" opacity="${opacity}"/>`);
+          break;
+        case 'quarter': {
+          // Quarter circle centered on a random corner of the cell
+          const corner = Math.floor(random() * 4);
+          const dx = corner % 2 === 0 ? 1 : -1;
+          const dy = corner < 2 ? 1 : -1;
+          const ax = dx === 1 ? x : x + size;
+          const ay = dy === 1 ? y : y + size;
+          shapes.push(`<path d="M${n(ax)},${n(ay)} L${n(ax + dx * size)},${n(ay)} A${size},${size} 0 0 ${dx * dy > 0 ? 1 : 0} ${n(ax)},${n(ay + dy * size)} Z" fill="${color}" opacity="${opacity}"/>`);
+          break;
+        }
+      }
+    }
+  }
+
+  return `<rect width="${WIDTH}" height="${HEIGHT}" fill="${background}"/>${shapes.join('')}`;
+};
+
+const drawPaper = (random: Random, p: Palette, seed: number) => {
+  const tape = { x: n(between(random, 60, WIDTH - 200)), y: n(between(random, 30, 140)), angle: n(between(random, -12, 12)) };
+  const ruled = random() < 0.5;
+  const lines = ruled
+    ? Array.from({ length: Math.floor(HEIGHT / 32) }, (_, i) => `<line x1="0" x2="${WIDTH}" y1="${32 * (i + 1)}" y2="${32 * (i + 1)}" stroke="${p.accent}" stroke-opacity="0.12"/>`)
+    : [];
+  return `
+    <defs>
+      <filter id="grain" x="0" y="0" width="100%" height="100%">
+        <feTurbulence type="fractalNoise" baseFrequency="${n(between(random, 0.6, 0.95))}" numOctaves="3" seed="${seed % 1000}"/>
+        <feColorMatrix type="matrix" values="0 0 0 0 0  0 0 0 0 0  0 0 0 0 0  0 0 0 0.09 0"/>
+      </filter>
+      <radialGradient id="vignette" r="0.75"><stop offset="0.6" stop-color="#000000" stop-opacity="0"/><stop offset="1" stop-color="#000000" stop-opacity="0.12"/></radialGradient>
+    </defs>
+    <rect width="${WIDTH}" height="${HEIGHT}" fill="${mixColors(p.highlight, '#ffffff', 0.25)}"/>
+    ${lines.join('')}
+    <rect width="${WIDTH}" height="${HEIGHT}" filter="url(#grain)"/>
+    <rect width="${WIDTH}" height="${HEIGHT}" fill="url(#vignette)"/>
+    <rect x="${tape.x}" y="${tape.y}" width="150" height="34" fill="${p.accent}" opacity="0.55" transform="rotate(${tape.angle} ${tape.x + 75} ${tape.y + 17})"/>`;
+};
+
+const drawTypography = (random: Random, p: Palette, text: string) => {
+  const word = escapeXml(text.trim().slice(0, 12) || 'NOTE');
+  const fontSize = n(between(random, 70, 110));
+  const angle = n(between(random, -14, 14));
+  const rows: string[] = [];
+  for (let i = 0, y = -fontSize; y < HEIGHT + fontSize * 2; i++, y += fontSize * 1.05) {
+    const outlined = i % 2 === 1;
+    const offset = n(-between(random, 0, fontSize * 3));
+    rows.push(
+      `<text x="${offset}" y="${n(y)}" font-size="${fontSize}" ${outlined ? `fill="none" stroke="${p.base}" stroke-width="1.5" stroke-opacity="0.35"` : `fill="${p.base}" fill-opacity="0.16"`}>${Array(6).fill(word).join(' · ')}</text>`
+    );
+  }
+  return `
+    <rect width="${WIDTH}" height="${HEIGHT}" fill="${pick(random, [p.accent, p.deep])}"/>
+    <g font-family="${TYPE_FONT}" font-weight="900" transform="rotate(${angle} ${WIDTH / 2} ${HEIGHT / 2})">${rows.join('')}</g>`;
+};
+
+// --- PUBLIC API ---
+
+/**
+ * Draws a background as SVG markup in the theme's colors. The same background,
+ * theme and text always give the same picture. `fallbackText` is used by the
+ * typography kind when the background has no text of its own.
+ */
+export const renderBackgroundSvg = (background: GeneratedBackground, theme: Theme, fallbackText = ''): string => {
+  const random = createRandom(background.seed);
+  const palette = paletteFor(theme);
+  let body: string;
+  switch (background.kind) {
+    case 'mesh': body = drawMesh(random, palette); break;
+    case 'geometric': body = drawGeometric(random, palette); break;
+    case 'paper': body = drawPaper(random, palette, background.seed); break;
+    case 'typography': body = drawTypography(random, palette, background.text || fallbackText); break;
+    default: body = drawGradient(random, palette);
+  }
+  return `<svg xmlns="http://www.w3.org/2000/svg" width="${WIDTH}" height="${HEIGHT}" viewBox="0 0 ${WIDTH} ${HEIGHT}">${body}</svg>`;
+};
+
+// As an <img> src: works offline and inlines cleanly into the PNG export
+export const generatedBackgroundUrl = (background: GeneratedBackground, theme: Theme, fallbackText = ''): string =>
+  `data:image/svg+xml;charset=utf-8,${encodeURIComponent(renderBackgroundSvg(background, theme, fallbackText))}`;
+
+// Pictures a collage cover can hold besides its cover image
+export const MAX_COLLAGE_IMAGES = 3;
+
+// Kinds that fill empty collage slots; they differ from the mesh of a cover without a photo
+const COLLAGE_FILL_KINDS: GeneratedBackgroundKind[] = ['geometric', 'gradient', 'paper'];
+
+// What a cover shows: its generated background, else its photo, else a mesh seeded by the slide id
+export const coverImageSrc = (slide: SlideData, branding: BrandingConfig): string => {
+  if (slide.generatedBackground) {
+    return generatedBackgroundUrl(slide.generatedBackground, branding.theme, slide.category || branding.brandName);
+  }
+  return slide.backgroundImage || generatedBackgroundUrl({ kind: 'mesh', seed: seedFromString(slide.id) }, branding.theme);
+};
+
+// The cover image followed by the collage images; empty slots get generated backgrounds seeded by the slide id
+export const collageImageSrcs = (slide: SlideData, branding: BrandingConfig): string[] => {
+  const images = [coverImageSrc(slide, branding), ...(slide.collageImages || []).slice(0, MAX_COLLAGE_IMAGES)];
+  for (let i = images.length; i <= MAX_COLLAGE_IMAGES; i++) {
+    const kind = COLLAGE_FILL_KINDS[(i - 1) % COLLAGE_FILL_KINDS.length];
+    images.push(generatedBackgroundUrl({ kind, seed: seedFromString(`${slide.id}:${i}`) }, branding.theme));
+  }
+  return images;
+};
@@ -0,0 +1,234 @@
+import { CandidateField, CoverCandidates, PromoDefaults, SlideData } from "../types";
+import { reindexSlides } from "./slideDeck";
+import { randomSeed } from "./generatedBackground";
+
+export interface GenerateOptions {
+  includePromo?: boolean; // Append a closing promo / call-to-action page
+  promo?: PromoDefaults;
+  defaultTags?: string[]; // Brand tags appended to every generated tag set on the cover
+  coverImage?: string; // Cover photo, normally picked from the local asset library; a generated background otherwise
+  suggestLayouts?: boolean; // Let the server give stats, quotes, tables and steps their own layout (default true)
+  provider?: string; // LLM provider id; the server default (LLM_PROVIDER) when omitted
+  mode?: 'ai' | 'local'; // 'local' skips the LLM and extracts cover metadata with rules
+  signal?: AbortSignal; // Aborting also cancels the upstream LLM request on the server
+}
+
+export type CoverMetadataField = 'title' | 'subtitle' | 'category' | 'tags' | 'quote';
+
+// How the cover metadata was produced. Content pages are always the verbatim input.
+export interface GenerationInfo {
+  mode: 'ai' | 'local' | 'fallback'; // 'fallback' = AI was requested but failed
+  provider: string | null;
+  aiFields: CoverMetadataField[]; // The rest came from the local extractor (or the user)
+  fallbackReason: string | null;
+  validationErrors: MetadataValidationError[]; // Why fields were rejected even after the repair prompt
+}
+
+// One schema violation in the AI answer, e.g. { field: 'title', message: 'title[0] is 19 characters (max 16): "..."' }
+export interface MetadataValidationError {
+  field: CoverMetadataField | '(root)';
+  message: string;
+}
+
+export interface GenerateResult {
+  slides: SlideData[];
+  generation: GenerationInfo;
+}
+
+export interface ProviderInfo {
+  id: string;
+  label: string;
+  model: string;
+  configured: boolean; // False when the server has no API key for it
+  isDefault: boolean;
+}
+
+export const fetchProviders = async (): Promise<ProviderInfo[]> => {
+  const response = await fetch('/api/providers');
+  if (!response.ok) {
+    throw new Error('Failed to load LLM providers');
+  }
+  return response.json();
+};
+
+// Streamed stages; slides are unpaginated and already carry ids and defaults
+export interface GenerateProgress {
+  stage: 'metadata' | 'paragraphs';
+  slides: SlideData[]; // Everything received so far (cover first)
+  generation: GenerationInfo;
+}
+
+type StreamEvent =
+  | { type: 'metadata'; cover: any; generation: GenerationInfo }
+  | { type: 'paragraphs'; slides: any[] }
+  | { type: 'done' }
+  | { type: 'error'; error: string };
+
+// Parses an NDJSON response body line by line as chunks arrive
+async function* readEvents(body: ReadableStream<Uint8Array>): AsyncGenerator<StreamEvent> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+  while (true) {
+    const { value, done } = await reader.read();
+    buffer += decoder.decode(value, { stream: !done });
+    const lines = buffer.split('\n');
+    buffer = lines.pop() || '';
+    for (const line of lines) {
+      if (line.trim()) yield JSON.parse(line);
+    }
+    if (done) break;
+  }
+  if (buffer.trim()) yield JSON.parse(buffer);
+}
+
+export const generateSlidesFromText = async (
+  rawText: string,
+  customTitle?: string,
+  customSubtitle?: string,
+  options: GenerateOptions = {},
+  onProgress?: (progress: GenerateProgress) => void
+): Promise<GenerateResult> => {
+  try {
+    const response = await fetch('/api/generate', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        text: rawText,
+        title: customTitle,
+        subtitle: customSubtitle,
+        includePromo: options.includePromo,
+        promo: options.promo,
+        suggestLayouts: options.suggestLayouts,
+        provider: options.provider,
+        mode: options.mode,
+        stream: true
+      }),
+      signal: options.signal,
+    });
+
+    if (!response.ok || !response.body) {
+      const errorData = await response.json();
+      throw new Error(errorData.error || 'Failed to generate slides');
+    }
+
+    // Pagination happens afterwards in services/pagination, which measures real rendered height.
+    const batchId = Date.now();
+    let coverCategory = "Knowledge System";
+    let generation: GenerationInfo | null = null;
+    let slides: SlideData[] = [];
+    let finished = false;
+
+    const defaultTags = options.defaultTags || [];
+    const withDefaultTags = (tags: string[]) => [...new Set([...tags, ...defaultTags])];
+
+    const prepare = (slide: any, index: number): SlideData => ({
+      ...slide,
+      id: `slide-${batchId}-${index}`,
+      // Fallback category if AI missed it on content slides
+      category: slide.category || coverCategory,
+      backgroundImage: slide.type === 'cover' ? options.coverImage : undefined,
+      generatedBackground: slide.type === 'cover' && !options.coverImage ? { kind: 'mesh', seed: randomSeed() } : undefined,
+      tags: withDefaultTags(slide.tags || ["干货满满", "建议收藏"]),
+      candidates: slide.candidates?.tags
+        ? { ...slide.candidates, tags: slide.candidates.tags.map(withDefaultTags) }
+        : slide.candidates,
+      titleFontSize: slide.type === 'cover' ? 48 : undefined, // Default bigger font for cover
+      coverStyle: slide.type === 'cover' ? 'classic' : undefined
+    });
+
+    for await (const event of readEvents(response.body)) {
+      if (event.type === 'error') {
+        throw new Error(event.error || 'Failed to generate slides');
+      }
+      if (event.type === 'metadata') {
+        coverCategory = event.cover.category || coverCategory;
+        generation = event.generation;
+        slides = reindexSlides([prepare(event.cover, 0)]);
+        onProgress?.({ stage: 'metadata', slides, generation });
+      } else if (event.type === 'paragraphs' && generation) {
+        slides = reindexSlides([...slides, ...event.slides.map((slide, i) => prepare(slide, slides.length + i))]);
+        onProgress?.({ stage: 'paragraphs', slides, generation });
+      } else if (event.type === 'done') {
+        finished = true;
+      }
+    }
+
+    if (!finished || !generation) {
+      throw new Error('Generation stream ended unexpectedly');
+    }
+    return { slides, generation };
+
+  } catch (error) {
+    if (!options.signal?.aborted) {
+      console.error("API Error:", error);
+    }
+    throw error;
+  }
+};
+
+export interface RegenerateOptions {
+  provider?: string;
+  count?: number;
+  exclude?: (string | string[])[]; // Options the user already has; the AI is asked for different ones
+}
+
+// Asks for fresh candidates for one cover field without touching the rest of the deck
+export const regenerateField = async <F extends CandidateField>(
+  rawText: string,
+  field: F,
+  options: RegenerateOptions = {}
+): Promise<NonNullable<CoverCandidates[F]>> => {
+  const response = await fetch('/api/regenerate', {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({
+      text: rawText,
+      field,
+      count: options.count,
+      exclude: options.exclude,
+      provider: options.provider
+    }),
+  });
+
+  const data = await response.json();
+  if (!response.ok) {
+    throw new Error(data.error || `Failed to regenerate ${field}`);
+  }
+  return data.candidates;
+};
+
+export type RewriteMode = 'shorten' | 'emoji' | 'punchier' | 'translate';
+
+export interface RewriteOptions {
+  language?: 'en' | 'zh'; // Target language for 'translate'
+  provider?: string;
+  signal?: AbortSignal;
+}
+
+// Rewrites one paragraph; the caller decides whether to keep the result
+export const rewriteParagraph = async (text: string, mode: RewriteMode, options: RewriteOptions = {}): Promise<string> => {
+  const response = await fetch('/api/rewrite', {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({
+      text,
+      mode,
+      language: options.language,
+      provider: options.provider
+    }),
+    signal: options.signal,
+  });
+
+  const data = await response.json();
+  if (!response.ok) {
+    throw new Error(data.error || 'Failed to rewrite paragraph');
+  }
+  return data.text;
+};
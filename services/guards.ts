@@ -0,0 +1,12 @@
+// --- TYPE GUARDS ---
+
+// For data read back from IndexedDB or an imported file, which is untrusted until checked
+
+export const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+export const isString = (value: unknown): value is string => typeof value === 'string';
+
+export const isStringArray = (value: unknown): value is string[] => Array.isArray(value) && value.every(isString);
+
+export const isOneOf = <T,>(values: readonly T[], value: unknown): value is T => (values as readonly unknown[]).includes(value);
@@ -0,0 +1,71 @@
+// --- CONFIGURATION ---
+
+// Slides are 450px wide and exported at 2x (900px); the extra room keeps zoomed or cropped photos sharp,
+// while anything wider only bloats the project
+const MAX_IMAGE_WIDTH = 1350;
+const JPEG_QUALITY = 0.85;
+const MAX_IMAGE_BYTES = 20 * 1024 * 1024;
+
+// Kept byte for byte: re-encoding would drop the animation or the vectors
+const PASSTHROUGH_TYPES = ['image/gif', 'image/svg+xml'];
+
+// --- HELPERS ---
+
+export const blobToDataUrl = (blob: Blob): Promise<string> => new Promise((resolve, reject) => {
+  const reader = new FileReader();
+  reader.onload = () => resolve(reader.result as string);
+  reader.onerror = () => reject(reader.error);
+  reader.readAsDataURL(blob);
+});
+
+const loadImage = (src: string): Promise<HTMLImageElement> => new Promise((resolve, reject) => {
+  const image = new Image();
+  image.onload = () => resolve(image);
+  image.onerror = () => reject(new Error('The file could not be read as an image'));
+  image.src = src;
+});
+
+// --- PUBLIC API ---
+
+/**
+ * Reads an uploaded or pasted image as a data URL, scaled down to
+ * MAX_IMAGE_WIDTH. PNGs stay PNG (screenshots, transparency); other
+ * formats are re-encoded as JPEG only when they had to be scaled.
+ */
+export const imageToDataUrl = async (blob: Blob): Promise<string> => {
+  if (!blob.type.startsWith('image/')) {
+    throw new Error('Please choose an image file.');
+  }
+  if (blob.size > MAX_IMAGE_BYTES) {
+    throw new Error('Image is too large. Please use an image under 20MB.');
+  }
+
+  const dataUrl = await blobToDataUrl(blob);
+  if (PASSTHROUGH_TYPES.includes(blob.type)) return dataUrl;
+
+  const image = await loadImage(dataUrl);
+  if (image.naturalWidth <= MAX_IMAGE_WIDTH) return dataUrl;
+
+  const canvas = document.createElement('canvas');
+  canvas.width = MAX_IMAGE_WIDTH;
+  canvas.height = Math.round(image.naturalHeight * (MAX_IMAGE_WIDTH / image.naturalWidth));
+  const context = canvas.getContext('2d');
+  if (!context) return dataUrl;
+  context.drawImage(image, 0, 0, canvas.width, canvas.height);
+  return canvas.toDataURL(blob.type === 'image/png' ? 'image/png' : 'image/jpeg', JPEG_QUALITY);
+};
+
+// Downloads a remote image and embeds it; throws when the host does not allow CORS
+export const urlToDataUrl = async (url: string): Promise<string> => {
+  const response = await fetch(url, { mode: 'cors' });
+  if (!response.ok) throw new Error(`HTTP ${response.status}`);
+  return imageToDataUrl(await response.blob());
+};
+
+// The first image on the clipboard, if any (screenshots paste as files)
+export const getClipboardImage = (data: DataTransfer | null): File | null => {
+  for (const item of Array.from(data?.items || [])) {
+    if (item.kind === 'file' && item.type.startsWith('image/')) return item.getAsFile();
+  }
+  return null;
+};
@@ -0,0 +1,313 @@
+import React from 'react';
+import { createRoot, Root } from 'react-dom/client';
+import { flushSync } from 'react-dom';
+import { BrandingConfig, ContentLayout, SlideData } from '../types';
+import SlideRenderer from '../components/SlideRenderer';
+
+// --- MEASUREMENT ---
+
+export interface OverflowInfo {
+  overflowPx: number; // How far the content runs past the visible body (CSS px, 0 = fits)
+  hiddenParagraphs: number; // Paragraphs that are cut off, fully or partially
+  firstHiddenIndex: number | null; // Index in `content` of the first paragraph that does not fit
+}
+
+/**
+ * Reads how much of a rendered content slide is clipped by the body's overflow-hidden.
+ * Works on any mounted SlideRenderer root (preview, export container or the off-screen measurer).
+ */
+export const measureSlideOverflow = (slideElement: HTMLElement | null): OverflowInfo => {
+  const none: OverflowInfo = { overflowPx: 0, hiddenParagraphs: 0, firstHiddenIndex: null };
+  const body = slideElement?.querySelector<HTMLElement>('[data-slide-body]');
+  const flow = slideElement?.querySelector<HTMLElement>('[data-slide-flow]');
+  if (!body || !flow) return none;
+
+  const bodyRect = body.getBoundingClientRect();
+  // Rects include CSS transforms; convert back to layout pixels
+  const scale = body.offsetHeight > 0 ? bodyRect.height / body.offsetHeight : 1;
+  const paragraphs = Array.from(flow.querySelectorAll<HTMLElement>(':scope > [data-paragraph]'));
+
+  let overflowPx = 0;
+  let hiddenParagraphs = 0;
+  let firstHiddenIndex: number | null = null;
+
+  for (const paragraph of paragraphs) {
+    const over = (paragraph.getBoundingClientRect().bottom - bodyRect.bottom) / scale;
+    if (over > 0.5) { // Half a pixel of tolerance for sub-pixel rounding
+      hiddenParagraphs++;
+      if (firstHiddenIndex === null) firstHiddenIndex = Number(paragraph.dataset.paragraph);
+    }
+    overflowPx = Math.max(overflowPx, over);
+  }
+
+  return { overflowPx: Math.round(overflowPx), hiddenParagraphs, firstHiddenIndex };
+};
+
+// Renders slides into a hidden, unscaled SlideRenderer so we can measure real layout.
+class SlideMeasurer {
+  private host: HTMLDivElement;
+  private root: Root;
+  private element: HTMLDivElement | null = null;
+
+  constructor(private branding: BrandingConfig) {
+    this.host = document.createElement('div');
+    this.host.style.cssText = 'position:absolute;left:-10000px;top:0;visibility:hidden;pointer-events:none;';
+    document.body.appendChild(this.host);
+    this.root = createRoot(this.host);
+  }
+
+  fits(slide: SlideData): boolean {
+    flushSync(() => {
+      this.root.render(React.createElement(SlideRenderer, {
+        data: slide,
+        branding: this.branding,
+        ref: (el: HTMLDivElement | null) => { this.element = el; },
+      }));
+    });
+    return measureSlideOverflow(this.element).hiddenParagraphs === 0;
+  }
+
+  dispose() {
+    this.root.unmount();
+    this.host.remove();
+  }
+}
+
+// --- SPLITTING ---
+
+// Layouts whose paragraphs flow across pages; the others are one designed page each
+const FLOWING_LAYOUTS: ContentLayout[] = ['text', 'timeline', 'checklist'];
+
+const layoutOf = (slide: SlideData): ContentLayout => slide.contentLayout || 'text';
+
+// Split text into sentences safely (keeps the terminal punctuation)
+const splitIntoSentences = (text: string): string[] => {
+  return text.match(/[^。！？.!?]+[。！？.!?]+[”"』」）)]*|[^。！？.!?]+$/g) || [text];
+};
+
+// Tables, headings, code blocks, callouts and images only make sense whole
+const isUnsplittable = (text: string) => /^(\||#|```|~~~|>\s*\[!|!\[)/.test(text.trim());
+
+// Lists and blockquotes are kept as one multi-line block; they break between lines
+const splitIntoUnits = (text: string): { units: string[]; separator: string } =>
+  text.includes('\n')
+    ? { units: text.split('\n').filter(line => line.trim().length > 0), separator: '\n' }
+    : { units: splitIntoSentences(text), separator: '' };
+
+const isHeading = (text: string) => text.trim().startsWith('#');
+
+// Largest n in [lo, hi] with ok(n) true, assuming ok is monotonic; lo - 1 if none.
+const searchLargest = (lo: number, hi: number, ok: (n: number) => boolean): number => {
+  let best = lo - 1;
+  while (lo <= hi) {
+    const mid = Math.floor((lo + hi) / 2);
+    if (ok(mid)) {
+      best = mid;
+      lo = mid + 1;
+    } else {
+      hi = mid - 1;
+    }
+  }
+  return best;
+};
+
+/**
+ * Splits `paragraph` so that its head fits after `current` on one page.
+ * Prefers line (multi-line blocks) or sentence boundaries; falls back to
+ * characters only when a single line or sentence is taller than an empty page.
+ */
+const splitToFit = (
+  fits: (content: string[]) => boolean,
+  current: string[],
+  paragraph: string
+): [string, string] | null => {
+  if (isUnsplittable(paragraph)) return null;
+
+  const { units, separator } = splitIntoUnits(paragraph);
+  const count = searchLargest(1, units.length - 1, n => fits([...current, units.slice(0, n).join(separator)]));
+  if (count >= 1) {
+    return [units.slice(0, count).join(separator), units.slice(count).join(separator)];
+  }
+
+  if (current.length > 0) return null; // Start the paragraph on a fresh page instead
+
+  const chars = searchLargest(1, paragraph.length - 1, n => fits([paragraph.slice(0, n)]));
+  if (chars >= 1) return [paragraph.slice(0, chars), paragraph.slice(chars)];
+  return null;
+};
+
+// Flows one run of paragraphs into as many pages as needed.
+// `onPage` runs after each finished page and may pause (to let the UI paint) or throw (to cancel).
+const paginateFlow = async (
+  measurer: SlideMeasurer,
+  template: SlideData,
+  paragraphs: string[],
+  onPage?: (page: string[]) => void | Promise<void>
+): Promise<string[][]> => {
+  const fits = (content: string[]) => measurer.fits({ ...template, content, pageNumber: 99, totalPages: 99 });
+
+  const pages: string[][] = [];
+  let current: string[] = [];
+  const queue = paragraphs.filter(p => p.trim().length > 0);
+
+  const flush = async () => {
+    const page = current;
+    current = [];
+    if (page.length > 0) {
+      pages.push(page);
+      await onPage?.(page);
+    }
+  };
+
+  while (queue.length > 0) {
+    const paragraph = queue.shift()!;
+
+    if (fits([...current, paragraph])) {
+      // A heading must not end a page: it needs at least the first sentence of its body below it
+      const next = queue[0];
+      if (isHeading(paragraph) && next && current.length > 0 && !fits([...current, paragraph, splitIntoUnits(next).units[0]])) {
+        await flush();
+      }
+      current.push(paragraph);
+      continue;
+    }
+
+    // Headings are never split; start them on the next page
+    if (isHeading(paragraph) && current.length > 0) {
+      await flush();
+      queue.unshift(paragraph);
+      continue;
+    }
+
+    // Timeline steps and checklist items move to the next page whole
+    const split = layoutOf(template) === 'text' ? splitToFit(fits, current, paragraph) : null;
+    if (split) {
+      current.push(split[0]);
+      await flush();
+      queue.unshift(split[1]);
+    } else if (current.length > 0) {
+      await flush();
+      queue.unshift(paragraph);
+    } else {
+      // Cannot be split and does not fit an empty page: give it its own page
+      current.push(paragraph);
+      await flush();
+    }
+  }
+  await flush();
+
+  return pages;
+};
+
+// --- PUBLIC API ---
+
+export interface PaginateOptions {
+  // Merge consecutive content slides into one flow before paginating (used by "Re-paginate").
+  // A slide with `pageBreakBefore`, a different layout or its own title always starts a new flow. Without
+  // it, each content slide is paginated on its own.
+  // Single-page layouts (stat, quote, comparison, image) are never merged or split.
+  reflow?: boolean;
+  // Called with the slides finished so far (cover and pages in order) after every page,
+  // so the preview can fill in progressively. The loop yields to the browser between calls.
+  onProgress?: (slides: SlideData[]) => void;
+  signal?: AbortSignal; // Checked between pages
+}
+
+// Pages of a run all get the first slide's title, so a differently titled slide starts its own run
+const canJoinRun = (template: SlideData, slide: SlideData) =>
+  !slide.pageBreakBefore && layoutOf(template) === layoutOf(slide) && (!slide.title || slide.title === template.title);
+
+const nextFrame = () => new Promise<void>(resolve => setTimeout(resolve, 0));
+
+/**
+ * Splits content slides into pages by measuring the real rendered height.
+ * Cover and promo slides pass through untouched. Existing slide ids are reused
+ * in order so selection survives a re-paginate.
+ */
+export const paginateSlides = async (
+  slides: SlideData[],
+  branding: BrandingConfig,
+  options: PaginateOptions = {}
+): Promise<SlideData[]> => {
+  if (document.fonts?.ready) {
+    await document.fonts.ready; // Glyph metrics must be final before measuring
+  }
+
+  // Group into runs: each run is a template slide + the paragraphs to flow
+  const runs: { template: SlideData; ids: string[]; paragraphs: string[] }[] = [];
+  const result: (SlideData | number)[] = []; // Numbers are placeholders for runs
+
+  for (const slide of slides) {
+    if (slide.type !== 'content' || !FLOWING_LAYOUTS.includes(layoutOf(slide))) {
+      result.push(slide);
+      continue;
+    }
+    const last = result[result.length - 1];
+    if (options.reflow && typeof last === 'number' && canJoinRun(runs[last].template, slide)) {
+      runs[last].ids.push(slide.id);
+      runs[last].paragraphs.push(...slide.content);
+      continue;
+    }
+    runs.push({ template: slide, ids: [slide.id], paragraphs: [...slide.content] });
+    result.push(runs.length - 1);
+  }
+
+  const measurer = new SlideMeasurer(branding);
+  try {
+    const output: SlideData[] = [];
+    for (const item of result) {
+      if (typeof item !== 'number') {
+        output.push(item);
+        continue;
+      }
+      const run = runs[item];
+      // Only the first page of a section carries its forced page break
+      const { pageBreakBefore, ...template } = run.template;
+      // Timeline pages continue the step numbering of the page before them
+      const isTimeline = layoutOf(run.template) === 'timeline';
+      let stepStart = run.template.stepStart || 1;
+      const toSlide = (content: string[], i: number): SlideData => ({
+        ...template,
+        ...(i === 0 && pageBreakBefore ? { pageBreakBefore } : {}),
+        ...(isTimeline ? { stepStart } : {}),
+        id: run.ids[i] || `${run.template.id}-p${i + 1}-${Date.now()}`,
+        content,
+      });
+      const finished: SlideData[] = [];
+      await paginateFlow(measurer, run.template, run.paragraphs, async page => {
+        options.signal?.throwIfAborted();
+        finished.push(toSlide(page, finished.length));
+        stepStart += page.length;
+        if (options.onProgress) {
+          options.onProgress([...output, ...finished]);
+          await nextFrame();
+        }
+      });
+      output.push(...(finished.length > 0 ? finished : [toSlide([], 0)]));
+    }
+    return output;
+  } finally {
+    measurer.dispose();
+  }
+};
+
+/**
+ * Works out what part of an overflowing slide fits on it and what has to move on.
+ * Splits at the same line and sentence boundaries as full pagination.
+ */
+export const splitSlideOverflow = async (
+  slide: SlideData,
+  branding: BrandingConfig
+): Promise<{ keep: string[]; overflow: string[] }> => {
+  if (document.fonts?.ready) {
+    await document.fonts.ready;
+  }
+
+  const measurer = new SlideMeasurer(branding);
+  try {
+    const [first = [], ...rest] = await paginateFlow(measurer, slide, slide.content);
+    return { keep: first, overflow: rest.flat() };
+  } finally {
+    measurer.dispose();
+  }
+};
@@ -0,0 +1,58 @@
+import { describe, expect, it } from 'vitest';
+import { BrandingConfig } from '../types';
+import { importProjectFile } from './projectFile';
+import { DEFAULT_THEME } from './theme';
+
+// --- FIXTURES ---
+
+const FALLBACK: BrandingConfig = {
+  logoText: 'R',
+  brandName: 'Brand',
+  footerSlogan: 'Slogan',
+  logoUrl: '',
+  logoUrlDark: '',
+  theme: DEFAULT_THEME,
+};
+
+const fileOf = (data: unknown) => new File([JSON.stringify(data)], 'carousel.rednote.json', { type: 'application/json' });
+
+const paths = (issues: { path: string }[]) => issues.map(issue => issue.path);
+
+// --- IMPORT ---
+
+describe('importProjectFile', () => {
+  it('rejects files that are not a project object', async () => {
+    await expect(importProjectFile(fileOf('text'), FALLBACK)).rejects.toThrow('not a JSON object');
+    await expect(importProjectFile(fileOf({ format: 'rednote-project', project: 5 }), FALLBACK)).rejects.toThrow('project data missing');
+    await expect(importProjectFile(fileOf({ slides: 'none' }), FALLBACK)).rejects.toThrow('"slides" must be a list');
+  });
+
+  it('drops invalid fields, reports them and keeps the rest', async () => {
+    const { project, issues } = await importProjectFile(fileOf({
+      name: 'Mine',
+      slides: [
+        'not a slide',
+        { id: 'c', type: 'cover', title: 'Hi', content: [], coverStyle: 'neon', titleStyle: { align: 'middle', font: 'Serif' } },
+        { id: 'p', type: 'content', title: 5, content: ['a', 1], contentLayout: 'timeline', stepStart: 0 },
+      ],
+      branding: { brandName: 3, theme: { accent: 'red' } },
+    }), FALLBACK);
+
+    expect(paths(issues)).toEqual([
+      'slides[0]',
+      'slides[1].coverStyle',
+      'slides[1].titleStyle.align',
+      'slides[2].title',
+      'slides[2].content',
+      'slides[2].stepStart',
+      'branding.brandName',
+      'branding.theme.accent',
+    ]);
+    expect(project.name).toBe('Mine');
+    expect(project.slides).toHaveLength(2);
+    expect(project.slides[0]).toMatchObject({ id: 'c', title: 'Hi', titleStyle: { font: 'Serif' } });
+    expect(project.slides[0].coverStyle).toBeUndefined();
+    expect(project.slides[1]).toMatchObject({ title: '', content: ['a'], contentLayout: 'timeline' });
+    expect(project.branding).toEqual(FALLBACK);
+  });
+});
@@ -0,0 +1,463 @@
+import JSZip from 'jszip';
+import { BrandingConfig, ContentLayout, CoverStyle, ProjectDocument, SlideData, SlideType } from '../types';
+import { CURRENT_SCHEMA_VERSION, createProjectDocument, getProjectDisplayName, migrateProject } from './projectStore';
+import { ADJUST_RANGES, GRADIENT_DIRECTIONS } from './backgroundAdjust';
+import { GENERATED_BACKGROUND_KINDS } from './generatedBackground';
+import { blobToDataUrl } from './imageData';
+import { TITLE_ALIGNS, TITLE_RANGES } from './titleStyle';
+import { formatImageBlock, parseImageBlock } from './richText';
+import { isOneOf, isRecord, isString, isStringArray } from './guards';
+import { isHexColor, THEME_COLORS } from './theme';
+
+// --- CONFIGURATION ---
+
+const FILE_FORMAT = 'rednote-project';
+const FILE_FORMAT_VERSION = 1;
+const BUNDLE_MANIFEST = 'project.json';
+const BUNDLE_ASSET_PREFIX = 'assets/';
+
+const SLIDE_TYPES: SlideType[] = ['cover', 'content', 'promo'];
+const COVER_STYLES: CoverStyle[] = ['classic', 'immersive', 'glass', 'frame', 'poster', 'note', 'magazine', 'collage', 'checklist'];
+const CONTENT_LAYOUTS: ContentLayout[] = ['text', 'stat', 'quote', 'comparison', 'image', 'timeline', 'checklist'];
+
+// Fields holding image URLs that must travel with the file.
+const SLIDE_ASSET_FIELDS = ['backgroundImage', 'promoQrCode'] as const;
+const BRANDING_ASSET_FIELDS = ['logoUrl', 'logoUrlDark'] as const;
+
+export interface ImportIssue {
+  path: string; // e.g. "slides[2].coverStyle"
+  message: string;
+}
+
+export interface ImportResult {
+  project: ProjectDocument;
+  issues: ImportIssue[];
+}
+
+interface ProjectFile {
+  format: typeof FILE_FORMAT;
+  formatVersion: number;
+  exportedAt: number;
+  project: ProjectDocument;
+}
+
+// --- ASSET HELPERS ---
+
+const isRemoteUrl = (value: unknown): value is string =>
+  typeof value === 'string' && /^(https?:)?\/\//.test(value);
+
+// Remote images are fetched and inlined so the file opens offline.
+// CORS failures are not fatal: the URL is kept and reported instead.
+const inlineAsset = async (url: string, warnings: string[]): Promise<string> => {
+  if (!isRemoteUrl(url)) return url;
+  try {
+    const response = await fetch(url, { mode: 'cors' });
+    if (!response.ok) throw new Error(`HTTP ${response.status}`);
+    return await blobToDataUrl(await response.blob());
+  } catch (e) {
+    console.warn(`[ProjectFile] Could not embed ${url}`, e);
+    warnings.push(url);
+    return url;
+  }
+};
+
+const mapAssets = async (doc: ProjectDocument, transform: (value: string) => Promise<string>): Promise<ProjectDocument> => {
+  const branding: BrandingConfig = { ...doc.branding };
+  for (const field of BRANDING_ASSET_FIELDS) {
+    if (branding[field]) branding[field] = await transform(branding[field]);
+  }
+
+  const slides: SlideData[] = [];
+  for (const slide of doc.slides) {
+    const copy: SlideData = { ...slide };
+    for (const field of SLIDE_ASSET_FIELDS) {
+      const value = copy[field];
+      if (value) copy[field] = await transform(value);
+    }
+    if (copy.collageImages) {
+      const images: string[] = [];
+      for (const src of copy.collageImages) images.push(await transform(src));
+      copy.collageImages = images;
+    }
+    // Image blocks inside the content carry their own src
+    const content: string[] = [];
+    for (const block of copy.content) {
+      const image = parseImageBlock(block);
+      content.push(image ? formatImageBlock({ ...image, src: await transform(image.src) }) : block);
+    }
+    copy.content = content;
+    slides.push(copy);
+  }
+
+  return { ...doc, branding, slides };
+};
+
+const DATA_URL_PATTERN = /^data:([^;,]+)?(;base64)?,(.*)$/s;
+
+const extensionForMime = (mime: string) => {
+  const subtype = (mime.split('/')[1] || 'bin').split('+')[0];
+  return subtype === 'jpeg' ? 'jpg' : subtype;
+};
+
+const fileNameFor = (doc: ProjectDocument) =>
+  getProjectDisplayName(doc).replace(/[\\/:*?"<>|\s]+/g, '_').slice(0, 60) || 'carousel';
+
+// --- EXPORT ---
+
+export interface ExportResult {
+  blob: Blob;
+  fileName: string;
+  unembedded: string[]; // Remote URLs that could not be inlined
+}
+
+export const exportProjectJson = async (doc: ProjectDocument): Promise<ExportResult> => {
+  const unembedded: string[] = [];
+  const project = await mapAssets(doc, url => inlineAsset(url, unembedded));
+  const file: ProjectFile = {
+    format: FILE_FORMAT,
+    formatVersion: FILE_FORMAT_VERSION,
+    exportedAt: Date.now(),
+    project: { ...project, schemaVersion: CURRENT_SCHEMA_VERSION },
+  };
+  return {
+    blob: new Blob([JSON.stringify(file, null, 2)], { type: 'application/json' }),
+    fileName: `${fileNameFor(doc)}.rednote.json`,
+    unembedded,
+  };
+};
+
+// Zip bundle: project.json references images stored as real files under assets/,
+// which keeps the manifest readable and diffable.
+export const exportProjectBundle = async (doc: ProjectDocument): Promise<ExportResult> => {
+  const unembedded: string[] = [];
+  const zip = new JSZip();
+  const assetPaths = new Map<string, string>(); // data URL -> bundle path (dedupes shared logos)
+
+  const project = await mapAssets(doc, async (value) => {
+    const dataUrl = await inlineAsset(value, unembedded);
+    const match = dataUrl.match(DATA_URL_PATTERN);
+    if (!match || !match[2]) return dataUrl;
+
+    const existing = assetPaths.get(dataUrl);
+    if (existing) return existing;
+
+    const path = `${BUNDLE_ASSET_PREFIX}asset-${assetPaths.size + 1}.${extensionForMime(match[1] || 'application/octet-stream')}`;
+    zip.file(path, match[3], { base64: true });
+    assetPaths.set(dataUrl, path);
+    return path;
+  });
+
+  const file: ProjectFile = {
+    format: FILE_FORMAT,
+    formatVersion: FILE_FORMAT_VERSION,
+    exportedAt: Date.now(),
+    project: { ...project, schemaVersion: CURRENT_SCHEMA_VERSION },
+  };
+  zip.file(BUNDLE_MANIFEST, JSON.stringify(file, null, 2));
+
+  return {
+    blob: await zip.generateAsync({ type: 'blob' }),
+    fileName: `${fileNameFor(doc)}.rednote.zip`,
+    unembedded,
+  };
+};
+
+// --- VALIDATION ---
+
+// Drops out-of-range adjustments; the renderer treats missing ones as "unchanged"
+const validateBackgroundAdjust = (slide: Record<string, unknown>, path: string, issues: ImportIssue[]) => {
+  const { backgroundAdjust: adjust } = slide;
+  if (!isRecord(adjust)) {
+    issues.push({ path: `${path}.backgroundAdjust`, message: 'Background adjustments must be an object' });
+    delete slide.backgroundAdjust;
+    return;
+  }
+  const cleaned = { ...adjust };
+  slide.backgroundAdjust = cleaned;
+  const drop = (field: string, message: string) => {
+    issues.push({ path: `${path}.backgroundAdjust.${field}`, message });
+    delete cleaned[field];
+  };
+  for (const [field, range] of Object.entries(ADJUST_RANGES)) {
+    const value = adjust[field];
+    if (value !== undefined && (typeof value !== 'number' || value < range.min || value > range.max)) {
+      drop(field, `Must be a number between ${range.min} and ${range.max}`);
+    }
+  }
+  if (adjust.overlayColor !== undefined && !isHexColor(adjust.overlayColor)) drop('overlayColor', 'Must be a #rrggbb color');
+  if (adjust.gradient !== undefined && !isOneOf(GRADIENT_DIRECTIONS, adjust.gradient)) {
+    drop('gradient', `Unknown gradient direction ${JSON.stringify(adjust.gradient)}`);
+  }
+};
+
+// Drops invalid typography fields; the renderer falls back to the cover style's look
+const validateTitleStyle = (slide: Record<string, unknown>, path: string, issues: ImportIssue[]) => {
+  const { titleStyle } = slide;
+  if (!isRecord(titleStyle)) {
+    issues.push({ path: `${path}.titleStyle`, message: 'Title style must be an object' });
+    delete slide.titleStyle;
+    return;
+  }
+  const cleaned = { ...titleStyle };
+  slide.titleStyle = cleaned;
+  const drop = (field: string, message: string) => {
+    issues.push({ path: `${path}.titleStyle.${field}`, message });
+    delete cleaned[field];
+  };
+  for (const [field, range] of Object.entries(TITLE_RANGES)) {
+    const value = titleStyle[field];
+    if (value !== undefined && (typeof value !== 'number' || value < range.min || value > range.max)) {
+      drop(field, `Must be a number between ${range.min} and ${range.max}`);
+    }
+  }
+  if (titleStyle.font !== undefined && !isString(titleStyle.font)) drop('font', 'Must be text');
+  if (titleStyle.strokeColor !== undefined && !isHexColor(titleStyle.strokeColor)) drop('strokeColor', 'Must be a #rrggbb color');
+  if (titleStyle.highlightColors !== undefined && !(isStringArray(titleStyle.highlightColors) && titleStyle.highlightColors.every(color => color === '' || isHexColor(color)))) {
+    drop('highlightColors', 'Must be a list of #rrggbb colors');
+  }
+  if (titleStyle.align !== undefined && !isOneOf(TITLE_ALIGNS, titleStyle.align)) drop('align', `Unknown alignment ${JSON.stringify(titleStyle.align)}`);
+  if (titleStyle.autoFit !== undefined && typeof titleStyle.autoFit !== 'boolean') drop('autoFit', 'Auto-fit must be true or false');
+};
+
+// A background without a known kind or a seed cannot be drawn, so it is dropped whole
+const validateGeneratedBackground = (slide: Record<string, unknown>, path: string, issues: ImportIssue[]) => {
+  const { generatedBackground: background } = slide;
+  const valid = isRecord(background)
+    && GENERATED_BACKGROUND_KINDS.some(({ kind }) => kind === background.kind)
+    && Number.isFinite(background.seed);
+  if (!valid) {
+    issues.push({ path: `${path}.generatedBackground`, message: 'Generated background needs a known kind and a numeric seed' });
+    delete slide.generatedBackground;
+    return;
+  }
+  const cleaned = { ...background };
+  slide.generatedBackground = cleaned;
+  if (background.text !== undefined && !isString(background.text)) {
+    issues.push({ path: `${path}.generatedBackground.text`, message: 'Must be text' });
+    delete cleaned.text;
+  }
+};
+
+// Checks one slide and returns a cleaned copy; invalid optional fields are dropped and reported.
+const validateSlide = (raw: unknown, index: number, issues: ImportIssue[]): Partial<SlideData> | null => {
+  const path = `slides[${index}]`;
+  if (!isRecord(raw)) {
+    issues.push({ path, message: 'Slide is not an object and was skipped' });
+    return null;
+  }
+
+  const slide = { ...raw };
+  const drop = (field: string, message: string) => {
+    issues.push({ path: `${path}.${field}`, message });
+    delete slide[field];
+  };
+
+  if (!isOneOf(SLIDE_TYPES, slide.type)) {
+    issues.push({ path: `${path}.type`, message: `Unknown slide type ${JSON.stringify(slide.type)}, using "content"` });
+    slide.type = 'content';
+  }
+  if (!isString(slide.id) || !slide.id) drop('id', 'Missing id, a new one was assigned');
+  if (!isString(slide.title)) {
+    if (slide.title !== undefined) issues.push({ path: `${path}.title`, message: 'Title must be text' });
+    slide.title = '';
+  }
+  if (!isStringArray(slide.content)) {
+    issues.push({ path: `${path}.content`, message: 'Content must be a list of text paragraphs' });
+    slide.content = Array.isArray(slide.content) ? slide.content.filter(isString) : [];
+  }
+
+  for (const field of ['subtitle', 'category', 'backgroundImage', 'promoHeadline', 'promoHandle', 'promoCta', 'promoQrCode', 'bulletMarker']) {
+    if (slide[field] !== undefined && !isString(slide[field])) drop(field, 'Must be text');
+  }
+  if (slide.tags !== undefined && !isStringArray(slide.tags)) drop('tags', 'Tags must be a list of text');
+  if (slide.collageImages !== undefined && !isStringArray(slide.collageImages)) drop('collageImages', 'Collage images must be a list of image URLs');
+  if (slide.titleFontSize !== undefined && (typeof slide.titleFontSize !== 'number' || slide.titleFontSize < 32 || slide.titleFontSize > 96)) {
+    drop('titleFontSize', 'Title size must be a number between 32 and 96');
+  }
+  if (slide.coverStyle !== undefined && !isOneOf(COVER_STYLES, slide.coverStyle)) {
+    drop('coverStyle', `Unknown cover style ${JSON.stringify(slide.coverStyle)}`);
+  }
+  if (slide.candidates !== undefined) {
+    const { candidates } = slide;
+    const valid = isRecord(candidates)
+      && ['title', 'subtitle', 'quote'].every(field => candidates[field] === undefined || isStringArray(candidates[field]))
+      && (candidates.tags === undefined || (Array.isArray(candidates.tags) && candidates.tags.every(isStringArray)));
+    if (!valid) drop('candidates', 'Candidates must be lists of text');
+  }
+  if (slide.backgroundAdjust !== undefined) {
+    validateBackgroundAdjust(slide, path, issues);
+  }
+  if (slide.generatedBackground !== undefined) {
+    validateGeneratedBackground(slide, path, issues);
+  }
+  if (slide.titleStyle !== undefined) {
+    validateTitleStyle(slide, path, issues);
+  }
+  if (slide.contentLayout !== undefined && !isOneOf(CONTENT_LAYOUTS, slide.contentLayout)) {
+    drop('contentLayout', `Unknown content layout ${JSON.stringify(slide.contentLayout)}`);
+  }
+  if (slide.stepStart !== undefined && (typeof slide.stepStart !== 'number' || !Number.isInteger(slide.stepStart) || slide.stepStart < 1)) {
+    drop('stepStart', 'First step number must be a whole number from 1');
+  }
+  if (slide.pageBreakBefore !== undefined && typeof slide.pageBreakBefore !== 'boolean') {
+    drop('pageBreakBefore', 'Page break must be true or false');
+  }
+
+  return slide;
+};
+
+// Drops invalid theme fields; migrateProject fills them from the default theme
+const validateTheme = (branding: Record<string, unknown>, path: string, issues: ImportIssue[]) => {
+  const { theme } = branding;
+  if (!isRecord(theme)) {
+    issues.push({ path: `${path}.theme`, message: 'Theme is not an object, the default theme was used' });
+    delete branding.theme;
+    return;
+  }
+  const cleaned = { ...theme };
+  branding.theme = cleaned;
+  const drop = (field: string, message: string) => {
+    issues.push({ path: `${path}.theme.${field}`, message });
+    delete cleaned[field];
+  };
+  for (const { key } of THEME_COLORS) {
+    if (theme[key] !== undefined && !isHexColor(theme[key])) drop(key, 'Must be a #rrggbb color, default was used');
+  }
+  for (const field of ['bodyFont', 'headingFont', 'presetId']) {
+    if (theme[field] !== undefined && !isString(theme[field])) drop(field, 'Must be text, default was used');
+  }
+  if (theme.radius !== undefined && (typeof theme.radius !== 'number' || theme.radius < 0 || theme.radius > 32)) {
+    drop('radius', 'Corner radius must be a number between 0 and 32');
+  }
+};
+
+// Returns a cleaned copy of the branding object, or undefined to fall back to defaults.
+// Shared with brand profile import.
+export const validateBranding = (raw: unknown, path: string, issues: ImportIssue[]): Partial<BrandingConfig> | undefined => {
+  if (raw === undefined) return undefined;
+  if (!isRecord(raw)) {
+    issues.push({ path, message: 'Branding is not an object, defaults were used' });
+    return undefined;
+  }
+  const branding = { ...raw };
+  for (const field of ['logoText', 'brandName', 'footerSlogan', 'logoUrl', 'logoUrlDark']) {
+    if (branding[field] !== undefined && !isString(branding[field])) {
+      issues.push({ path: `${path}.${field}`, message: 'Must be text, default was used' });
+      delete branding[field];
+    }
+  }
+  if (branding.theme !== undefined) {
+    validateTheme(branding, path, issues);
+  }
+  return branding;
+};
+
+const validateProject = (raw: Record<string, unknown>, issues: ImportIssue[]): Record<string, unknown> => {
+  if (!Array.isArray(raw.slides)) {
+    throw new Error('Invalid project file: "slides" must be a list');
+  }
+
+  const slides = raw.slides
+    .map((slide: unknown, i: number) => validateSlide(slide, i, issues))
+    .filter(Boolean);
+  if (slides.length === 0) {
+    throw new Error('Invalid project file: it contains no usable slides');
+  }
+
+  const branding = validateBranding(raw.branding, 'branding', issues);
+
+  const project: Record<string, unknown> = { ...raw, slides, branding };
+  for (const field of ['name', 'inputText', 'manualTitle', 'manualSubtitle']) {
+    if (project[field] !== undefined && !isString(project[field])) {
+      issues.push({ path: field, message: 'Must be text' });
+      delete project[field];
+    }
+  }
+  return project;
+};
+
+// --- IMPORT ---
+
+const readBundle = async (file: Blob): Promise<unknown> => {
+  const zip = await JSZip.loadAsync(file);
+  const manifest = zip.file(BUNDLE_MANIFEST);
+  if (!manifest) throw new Error(`Invalid bundle: ${BUNDLE_MANIFEST} not found`);
+
+  const parsed: unknown = JSON.parse(await manifest.async('string'));
+  const project = isRecord(parsed) ? parsed.project : undefined;
+  if (!isRecord(project)) return parsed;
+
+  // Resolve assets/ references back into data URLs
+  const resolve = async (value: unknown) => {
+    if (!isString(value) || !value.startsWith(BUNDLE_ASSET_PREFIX)) return value;
+    const entry = zip.file(value);
+    if (!entry) return value;
+    const ext = value.split('.').pop() || 'png';
+    const mime = ext === 'svg' ? 'image/svg+xml' : `image/${ext === 'jpg' ? 'jpeg' : ext}`;
+    return `data:${mime};base64,${await entry.async('base64')}`;
+  };
+
+  const { branding } = project;
+  if (isRecord(branding)) {
+    for (const field of BRANDING_ASSET_FIELDS) {
+      branding[field] = await resolve(branding[field]);
+    }
+  }
+  if (Array.isArray(project.slides)) {
+    for (const slide of project.slides) {
+      if (!isRecord(slide)) continue;
+      for (const field of SLIDE_ASSET_FIELDS) {
+        if (slide[field] !== undefined) slide[field] = await resolve(slide[field]);
+      }
+      const { collageImages, content } = slide;
+      if (Array.isArray(collageImages)) {
+        for (const [i, src] of collageImages.entries()) collageImages[i] = await resolve(src);
+      }
+      if (Array.isArray(content)) {
+        for (const [i, block] of content.entries()) {
+          const image = isString(block) ? parseImageBlock(block) : null;
+          if (image) content[i] = formatImageBlock({ ...image, src: String(await resolve(image.src)) });
+        }
+      }
+    }
+  }
+  return parsed;
+};
+
+export const importProjectFile = async (file: File, fallbackBranding: BrandingConfig): Promise<ImportResult> => {
+  const isZip = file.name.toLowerCase().endsWith('.zip') || file.type === 'application/zip';
+
+  let parsed: unknown;
+  try {
+    parsed = isZip ? await readBundle(file) : JSON.parse(await file.text());
+  } catch (e) {
+    throw new Error(`Could not read ${file.name}: ${e instanceof Error ? e.message : 'unknown error'}`);
+  }
+
+  if (!isRecord(parsed)) {
+    throw new Error('Invalid project file: not a JSON object');
+  }
+  if (parsed.format !== undefined && parsed.format !== FILE_FORMAT) {
+    throw new Error(`Unsupported file format "${parsed.format}"`);
+  }
+  if (typeof parsed.formatVersion === 'number' && parsed.formatVersion > FILE_FORMAT_VERSION) {
+    throw new Error('This file was exported by a newer version of RedNote Maker');
+  }
+
+  // Accept both the wrapped file format and a bare project document
+  const rawProject = parsed.format === FILE_FORMAT ? parsed.project : parsed;
+  if (!isRecord(rawProject)) {
+    throw new Error('Invalid project file: project data missing');
+  }
+
+  const issues: ImportIssue[] = [];
+  const validated = validateProject(rawProject, issues);
+  const migrated = migrateProject(validated, fallbackBranding);
+
+  // Imported copies always get a fresh id so they never overwrite a local project
+  const { id: _id, schemaVersion: _v, createdAt: _c, updatedAt: _u, ...fields } = migrated;
+  return {
+    project: createProjectDocument(fields),
+    issues,
+  };
+};
@@ -0,0 +1,52 @@
+import { describe, expect, it } from 'vitest';
+import { BrandingConfig } from '../types';
+import { CURRENT_SCHEMA_VERSION, migrateProject } from './projectStore';
+import { DEFAULT_THEME } from './theme';
+
+// --- FIXTURES ---
+
+const FALLBACK: BrandingConfig = {
+  logoText: 'R',
+  brandName: 'Brand',
+  footerSlogan: 'Slogan',
+  logoUrl: '',
+  logoUrlDark: '',
+  theme: DEFAULT_THEME,
+};
+
+// --- MIGRATION ---
+
+describe('migrateProject', () => {
+  it('rejects data that is not an object', () => {
+    for (const raw of [null, 'text', 42, ['a']]) {
+      expect(() => migrateProject(raw, FALLBACK)).toThrow('Project data is not an object');
+    }
+  });
+
+  it('upgrades an unversioned draft and fills in every field', () => {
+    const project = migrateProject({ id: 'p1', slides: [{ type: 'cover', title: 'Hi', content: ['a', 3] }] }, FALLBACK);
+    expect(project).toMatchObject({ id: 'p1', schemaVersion: CURRENT_SCHEMA_VERSION, name: '', inputText: '', manualTitle: '', manualSubtitle: '' });
+    expect(project.slides[0]).toMatchObject({ type: 'cover', title: 'Hi', content: ['a', '3'] });
+    expect(project.slides[0].id).toMatch(/^restored-slide-/);
+    expect(project.branding).toEqual(FALLBACK);
+  });
+
+  it('falls back for fields of the wrong type', () => {
+    const project = migrateProject({
+      schemaVersion: CURRENT_SCHEMA_VERSION,
+      id: 'p2',
+      name: 7,
+      createdAt: 'yesterday',
+      slides: 'none',
+      branding: { brandName: 'Mine', logoText: ['x'], theme: 'dark' },
+    }, FALLBACK);
+    expect(project.name).toBe('');
+    expect(typeof project.createdAt).toBe('number');
+    expect(project.slides).toEqual([]);
+    expect(project.branding).toEqual({ ...FALLBACK, brandName: 'Mine' });
+  });
+
+  it('refuses a document from a newer schema', () => {
+    expect(() => migrateProject({ schemaVersion: CURRENT_SCHEMA_VERSION + 1 }, FALLBACK)).toThrow(/newer version/);
+  });
+});
@@ -0,0 +1,182 @@
+import { BrandingConfig, ProjectDocument, ProjectSummary, SlideData } from '../types';
+import { PROJECT_STORE, withStore } from './database';
+import { reindexSlides } from './slideDeck';
+import { isRecord, isString } from './guards';
+import { DEFAULT_THEME, normalizeTheme } from './theme';
+import { plainTitle } from './titleStyle';
+
+// --- CONFIGURATION ---
+
+const LAST_PROJECT_KEY = 'rednote:lastProjectId';
+
+export const CURRENT_SCHEMA_VERSION = 2;
+
+const BRANDING_TEXT_FIELDS = ['logoText', 'brandName', 'footerSlogan', 'logoUrl', 'logoUrlDark'] as const;
+
+// A document as stored or imported, before migration has checked its fields
+type StoredDocument = Record<string, unknown>;
+
+// --- MIGRATIONS ---
+
+// Each entry upgrades a document FROM the keyed version to the next one.
+// Never edit an existing step: add a new one and bump CURRENT_SCHEMA_VERSION.
+const MIGRATIONS: { [fromVersion: number]: (doc: StoredDocument) => StoredDocument } = {
+  // v0: drafts saved before versioning existed (no schemaVersion, no timestamps)
+  0: (doc) => ({
+    ...doc,
+    name: doc.name || '',
+    createdAt: doc.createdAt || Date.now(),
+    updatedAt: doc.updatedAt || Date.now(),
+    inputText: doc.inputText || '',
+    manualTitle: doc.manualTitle || '',
+    manualSubtitle: doc.manualSubtitle || '',
+  }),
+  // v1: colors and fonts were hardcoded; keep the original look
+  1: (doc) => ({
+    ...doc,
+    branding: { ...(isRecord(doc.branding) ? doc.branding : {}), theme: DEFAULT_THEME },
+  }),
+};
+
+// Fills in fields every slide is expected to have, whatever version it was saved with.
+// Optional fields are kept as stored; project import checks them before they get here.
+const normalizeSlide = (raw: unknown, index: number): SlideData => {
+  const slide: Partial<SlideData> = isRecord(raw) ? raw : {};
+  return {
+    ...slide,
+    id: isString(slide.id) && slide.id ? slide.id : `restored-slide-${Date.now()}-${index}`,
+    type: slide.type === 'cover' || slide.type === 'promo' ? slide.type : 'content',
+    title: isString(slide.title) ? slide.title : '',
+    content: Array.isArray(slide.content) ? slide.content.map((p: unknown) => String(p ?? '')) : [],
+  };
+};
+
+// Stored branding over the fallback; text fields of the wrong type and a broken theme fall back too
+export const normalizeBranding = (raw: unknown, fallbackBranding: BrandingConfig): BrandingConfig => {
+  const stored = isRecord(raw) ? raw : {};
+  const branding: BrandingConfig = { ...fallbackBranding, theme: normalizeTheme(stored.theme ?? fallbackBranding.theme) };
+  for (const field of BRANDING_TEXT_FIELDS) {
+    const value = stored[field];
+    if (isString(value)) branding[field] = value;
+  }
+  return branding;
+};
+
+const numberOr = (value: unknown, fallback: number) => (typeof value === 'number' ? value : fallback);
+
+export const migrateProject = (raw: unknown, fallbackBranding: BrandingConfig): ProjectDocument => {
+  if (!isRecord(raw)) {
+    throw new Error('Project data is not an object');
+  }
+
+  let doc: StoredDocument = { ...raw };
+  let version = typeof doc.schemaVersion === 'number' ? doc.schemaVersion : 0;
+
+  if (version > CURRENT_SCHEMA_VERSION) {
+    throw new Error(`Project was saved by a newer version (schema v${version})`);
+  }
+
+  while (version < CURRENT_SCHEMA_VERSION) {
+    const step = MIGRATIONS[version];
+    if (!step) throw new Error(`No migration from schema v${version}`);
+    doc = step(doc);
+    version++;
+  }
+
+  const now = Date.now();
+  return {
+    id: isString(doc.id) ? doc.id : '',
+    schemaVersion: CURRENT_SCHEMA_VERSION,
+    name: isString(doc.name) ? doc.name : '',
+    createdAt: numberOr(doc.createdAt, now),
+    updatedAt: numberOr(doc.updatedAt, now),
+    slides: reindexSlides(Array.isArray(doc.slides) ? doc.slides.map(normalizeSlide) : []),
+    branding: normalizeBranding(doc.branding, fallbackBranding),
+    inputText: isString(doc.inputText) ? doc.inputText : '',
+    manualTitle: isString(doc.manualTitle) ? doc.manualTitle : '',
+    manualSubtitle: isString(doc.manualSubtitle) ? doc.manualSubtitle : '',
+  };
+};
+
+// --- PUBLIC API ---
+
+export const createProjectDocument = (fields: Omit<ProjectDocument, 'id' | 'schemaVersion' | 'createdAt' | 'updatedAt'>): ProjectDocument => {
+  const now = Date.now();
+  return {
+    ...fields,
+    id: `project-${now}-${Math.random().toString(36).slice(2, 8)}`,
+    schemaVersion: CURRENT_SCHEMA_VERSION,
+    createdAt: now,
+    updatedAt: now,
+  };
+};
+
+export const getProjectDisplayName = (doc: Pick<ProjectDocument, 'name' | 'slides'>): string => {
+  if (doc.name.trim()) return doc.name.trim();
+  const cover = doc.slides.find(s => s.type === 'cover');
+  return plainTitle(cover?.title || '').trim() || 'Untitled Carousel';
+};
+
+export const listProjects = async (): Promise<ProjectSummary[]> => {
+  const docs = await withStore<unknown[]>(PROJECT_STORE, 'readonly', store => store.getAll());
+  return docs
+    .filter(isRecord)
+    .map(doc => {
+      const slides = Array.isArray(doc.slides) ? doc.slides.map(normalizeSlide) : [];
+      return {
+        id: String(doc.id),
+        name: getProjectDisplayName({ name: isString(doc.name) ? doc.name : '', slides }),
+        updatedAt: numberOr(doc.updatedAt, 0),
+        slideCount: slides.length,
+        coverTitle: plainTitle(slides.find(s => s.type === 'cover')?.title || ''),
+      };
+    })
+    .sort((a, b) => b.updatedAt - a.updatedAt);
+};
+
+export const loadProject = async (id: string, fallbackBranding: BrandingConfig): Promise<ProjectDocument | null> => {
+  const raw = await withStore<unknown>(PROJECT_STORE, 'readonly', store => store.get(id));
+  if (!raw) return null;
+  return migrateProject(raw, fallbackBranding);
+};
+
+export const saveProject = async (doc: ProjectDocument): Promise<ProjectDocument> => {
+  const saved = { ...doc, schemaVersion: CURRENT_SCHEMA_VERSION, updatedAt: Date.now() };
+  await withStore(PROJECT_STORE, 'readwrite', store => store.put(saved));
+  return saved;
+};
+
+export const deleteProject = async (id: string): Promise<void> => {
+  await withStore(PROJECT_STORE, 'readwrite', store => store.delete(id));
+  if (getLastProjectId() === id) {
+    localStorage.removeItem(LAST_PROJECT_KEY);
+  }
+};
+
+export const duplicateProject = async (id: string, fallbackBranding: BrandingConfig): Promise<ProjectDocument | null> => {
+  const source = await loadProject(id, fallbackBranding);
+  if (!source) return null;
+
+  const { id: _id, schemaVersion: _v, createdAt: _c, updatedAt: _u, ...fields } = source;
+  const copy = createProjectDocument({
+    ...fields,
+    name: `${getProjectDisplayName(source)} (Copy)`,
+  });
+  return saveProject(copy);
+};
+
+export const getLastProjectId = (): string | null => {
+  try {
+    return localStorage.getItem(LAST_PROJECT_KEY);
+  } catch {
+    return null;
+  }
+};
+
+export const setLastProjectId = (id: string) => {
+  try {
+    localStorage.setItem(LAST_PROJECT_KEY, id);
+  } catch {
+    // Storage may be unavailable (private mode); reopening the last project is best-effort.
+  }
+};
@@ -0,0 +1,132 @@
+// --- TYPES ---
+
+export type InlineMark = 'bold' | 'italic' | 'highlight' | 'strike' | 'badge';
+
+export type InlineNode =
+  | { type: 'text'; text: string }
+  | { type: InlineMark; children: InlineNode[] };
+
+export type CalloutKind = 'tip' | 'note' | 'warning' | 'important';
+
+export interface Callout {
+  kind: CalloutKind;
+  title: string; // Text after the [!kind] marker, may be empty
+  lines: string[]; // Body lines without the "> " prefix
+}
+
+export type ListItem =
+  | { kind: 'bullet'; text: string }
+  | { kind: 'check'; checked: boolean; text: string };
+
+// --- INLINE MARKS ---
+
+// One alternative per mark; the first capture group that matched decides the mark.
+// Single * and _ only count as italic when they hug the text, so "3 * 4" stays as is.
+const INLINE_PATTERN = new RegExp([
+  /\*\*(.+?)\*\*/.source, // **bold**
+  /==(.+?)==/.source, // ==highlight==
+  /~~(.+?)~~/.source, // ~~strike~~
+  /\{\{(.+?)\}\}/.source, // {{🔥 badge}}
+  /(?<![\w*])\*(?![\s*])(.+?)(?<!\s)\*(?![\w*])/.source, // *italic*
+  /(?<![\w_])_(?![\s_])(.+?)(?<!\s)_(?![\w_])/.source, // _italic_
+].join('|'), 'gu');
+
+const GROUP_MARKS: InlineMark[] = ['bold', 'highlight', 'strike', 'badge', 'italic', 'italic'];
+
+/**
+ * Parses inline Markdown-style marks into a tree. Marks can nest
+ * (`==**key**==`), except badges whose text is shown as typed.
+ */
+export const parseInline = (text: string): InlineNode[] => {
+  const nodes: InlineNode[] = [];
+  let last = 0;
+
+  for (const match of text.matchAll(INLINE_PATTERN)) {
+    const group = match.slice(1).findIndex(value => value !== undefined);
+    const inner = match[group + 1];
+    const mark = GROUP_MARKS[group];
+    if (match.index > last) nodes.push({ type: 'text', text: text.slice(last, match.index) });
+    nodes.push({ type: mark, children: mark === 'badge' ? [{ type: 'text', text: inner }] : parseInline(inner) });
+    last = match.index + match[0].length;
+  }
+
+  if (last < text.length) nodes.push({ type: 'text', text: text.slice(last) });
+  return nodes;
+};
+
+// --- LINE AND BLOCK SYNTAX ---
+
+const CALLOUT_KINDS: Record<string, CalloutKind> = {
+  tip: 'tip',
+  hint: 'tip',
+  note: 'note',
+  info: 'note',
+  warning: 'warning',
+  caution: 'warning',
+  important: 'important',
+};
+
+// "> [!tip] Title" on the first line, any number of "> body" lines after it
+export const parseCallout = (block: string): Callout | null => {
+  const lines = block.trim().split('\n').map(line => line.trim());
+  const head = lines[0].match(/^>\s*\[!(\w+)\]\s*(.*)$/);
+  if (!head || !lines.every(line => line.startsWith('>'))) return null;
+
+  return {
+    kind: CALLOUT_KINDS[head[1].toLowerCase()] || 'note',
+    title: head[2],
+    lines: lines.slice(1).map(line => line.replace(/^>\s?/, '')).filter(line => line.trim().length > 0),
+  };
+};
+
+// "- text", "* text", "+ text", "- [ ] todo" and "- [x] done"
+export const parseListItem = (line: string): ListItem | null => {
+  const check = line.match(/^[-*+]\s+\[([ xX])\]\s+(.*)$/);
+  if (check) return { kind: 'check', checked: check[1] !== ' ', text: check[2] };
+
+  const bullet = line.match(/^[-*+]\s+(.*)$/);
+  if (bullet) return { kind: 'bullet', text: bullet[1] };
+  return null;
+};
+
+// --- IMAGE BLOCKS ---
+
+export type ImageFit = 'cover' | 'contain';
+export type ImageRatio = '1:1' | '4:3' | '3:4' | '16:9' | '3:2';
+export type ImageFocus = 'top' | 'center' | 'bottom';
+
+export interface ImageBlock {
+  src: string; // Usually a data URL, so the slide exports without CORS trouble
+  caption: string;
+  fit: ImageFit; // 'cover' crops to the frame, 'contain' shows the whole picture
+  ratio: ImageRatio; // Fixed frame, so pagination can measure the block before the image loads
+  focus: ImageFocus; // Which part stays visible when 'cover' crops
+}
+
+export const IMAGE_RATIOS: ImageRatio[] = ['4:3', '1:1', '3:4', '16:9', '3:2'];
+const IMAGE_FOCUSES: ImageFocus[] = ['top', 'center', 'bottom'];
+
+const IMAGE_PATTERN = /^!\[([^\]\n]*)\]\(\s*(\S+?)(?:\s+"([^"\n]*)")?\s*\)$/;
+
+// A block that is just `![caption](src "fit=cover;ratio=4:3;focus=center")`; the options are optional
+export const parseImageBlock = (block: string): ImageBlock | null => {
+  const match = block.trim().match(IMAGE_PATTERN);
+  if (!match) return null;
+
+  const options: Record<string, string> = {};
+  for (const option of (match[3] || '').split(';')) {
+    const [key, value] = option.split('=').map(part => part.trim());
+    if (key && value) options[key] = value;
+  }
+
+  return {
+    src: match[2],
+    caption: match[1], // Not trimmed, so typing a space in the caption field sticks
+    fit: options.fit === 'contain' ? 'contain' : 'cover',
+    ratio: IMAGE_RATIOS.find(ratio => ratio === options.ratio) || IMAGE_RATIOS[0],
+    focus: IMAGE_FOCUSES.find(focus => focus === options.focus) || 'center',
+  };
+};
+
+export const formatImageBlock = (image: ImageBlock): string =>
+  `![${image.caption.replace(/[\]\n]+/g, ' ')}](${image.src} "fit=${image.fit};ratio=${image.ratio};focus=${image.focus}")`;
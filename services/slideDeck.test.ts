@@ -0,0 +1,190 @@
+import { describe, expect, it } from 'vitest';
+import { SlideData } from '../types';
+import { deckReducer, reindexSlides } from './slideDeck';
+
+// --- FIXTURES ---
+
+const slide = (id: string, type: SlideData['type'] = 'content', content: string[] = [`${id}-a`, `${id}-b`]): SlideData => ({
+  id,
+  type,
+  title: id,
+  content,
+});
+
+// cover, c1, c2, c3, promo; numbered the way the app keeps them
+const deck = () => reindexSlides([slide('cover', 'cover'), slide('c1'), slide('c2'), slide('c3'), slide('promo', 'promo')]);
+
+const ids = (slides: SlideData[]) => slides.map(s => s.id);
+
+// Every content page is numbered 1..N in order; cover and promo pages carry only the total
+const expectNumbered = (slides: SlideData[]) => {
+  const total = slides.filter(s => s.type === 'content').length;
+  let page = 0;
+  for (const s of slides) {
+    expect(s.totalPages).toBe(total);
+    if (s.type === 'content') expect(s.pageNumber).toBe(++page);
+    else expect(s.pageNumber).toBeUndefined();
+  }
+};
+
+// --- OPERATIONS ---
+
+describe('deckReducer', () => {
+  it('adds a content slide after the given one', () => {
+    const next = deckReducer(deck(), { type: 'add', afterId: 'c1', newId: 'new' });
+    expect(ids(next)).toEqual(['cover', 'c1', 'new', 'c2', 'c3', 'promo']);
+    expect(next[2].type).toBe('content');
+    expectNumbered(next);
+    expect(next[2].pageNumber).toBe(2);
+    expect(next[3].pageNumber).toBe(3);
+  });
+
+  it('deletes a slide', () => {
+    const next = deckReducer(deck(), { type: 'delete', id: 'c2' });
+    expect(ids(next)).toEqual(['cover', 'c1', 'c3', 'promo']);
+    expectNumbered(next);
+    expect(next.find(s => s.id === 'c3')?.pageNumber).toBe(2);
+  });
+
+  it('splits a slide after the given paragraph', () => {
+    const start = deck().map(s => (s.id === 'c1' ? { ...s, content: ['p1', 'p2', 'p3'] } : s));
+    const next = deckReducer(start, { type: 'split', id: 'c1', index: 0, newId: 'c1b' });
+    expect(ids(next)).toEqual(['cover', 'c1', 'c1b', 'c2', 'c3', 'promo']);
+    expect(next[1].content).toEqual(['p1']);
+    expect(next[2].content).toEqual(['p2', 'p3']);
+    expect(next[2].title).toBe('c1');
+    expectNumbered(next);
+    expect(next[1].totalPages).toBe(4);
+  });
+
+  it('merges a slide with the next one', () => {
+    const next = deckReducer(deck(), { type: 'merge', id: 'c1' });
+    expect(ids(next)).toEqual(['cover', 'c1', 'c3', 'promo']);
+    expect(next[1].content).toEqual(['c1-a', 'c1-b', 'c2-a', 'c2-b']);
+    expectNumbered(next);
+  });
+
+  it('moves a slide', () => {
+    const next = deckReducer(deck(), { type: 'move', fromIndex: 3, toIndex: 1 });
+    expect(ids(next)).toEqual(['cover', 'c3', 'c1', 'c2', 'promo']);
+    expectNumbered(next);
+    expect(next[1].pageNumber).toBe(1);
+  });
+
+  it('changes a slide type and renumbers the remaining content pages', () => {
+    const next = deckReducer(deck(), { type: 'changeType', id: 'c1', slideType: 'cover' });
+    expect(next[1]).toMatchObject({ type: 'cover', coverStyle: 'classic', titleFontSize: 48 });
+    expectNumbered(next);
+    expect(next[2].pageNumber).toBe(1);
+    expect(next[2].totalPages).toBe(2);
+  });
+
+  it('patches one slide', () => {
+    const next = deckReducer(deck(), { type: 'update', id: 'c2', patch: { title: 'Renamed', subtitle: 'Sub' } });
+    expect(next[2]).toMatchObject({ id: 'c2', title: 'Renamed', subtitle: 'Sub', content: ['c2-a', 'c2-b'] });
+    expect(next[1].title).toBe('c1');
+    expectNumbered(next);
+  });
+
+  it('patches every slide', () => {
+    const next = deckReducer(deck(), { type: 'updateAll', patch: { category: '干货' } });
+    expect(next.every(s => s.category === '干货')).toBe(true);
+    expectNumbered(next);
+  });
+
+  it('replaces the deck and numbers the new slides', () => {
+    const next = deckReducer(deck(), { type: 'replace', slides: [slide('cover', 'cover'), slide('a'), slide('b')] });
+    expect(ids(next)).toEqual(['cover', 'a', 'b']);
+    expectNumbered(next);
+    expect(next[2].pageNumber).toBe(2);
+  });
+
+  it('edits, adds and deletes paragraphs', () => {
+    let next = deckReducer(deck(), { type: 'setParagraph', id: 'c1', index: 1, text: 'edited' });
+    expect(next[1].content).toEqual(['c1-a', 'edited']);
+    next = deckReducer(next, { type: 'addParagraph', id: 'c1', text: 'added' });
+    expect(next[1].content).toEqual(['c1-a', 'edited', 'added']);
+    next = deckReducer(next, { type: 'addParagraph', id: 'c1', text: 'inserted', index: 1 });
+    expect(next[1].content).toEqual(['c1-a', 'inserted', 'edited', 'added']);
+    next = deckReducer(next, { type: 'deleteParagraph', id: 'c1', index: 1 });
+    expect(next[1].content).toEqual(['c1-a', 'edited', 'added']);
+    next = deckReducer(next, { type: 'deleteParagraph', id: 'c1', index: 0 });
+    expect(next[1].content).toEqual(['edited', 'added']);
+    expect(next[2].content).toEqual(['c2-a', 'c2-b']);
+    expectNumbered(next);
+  });
+
+  it('reorders a paragraph within one slide', () => {
+    const start = deck().map(s => (s.id === 'c1' ? { ...s, content: ['p1', 'p2', 'p3'] } : s));
+    const next = deckReducer(start, { type: 'moveParagraph', fromId: 'c1', fromIndex: 0, toId: 'c1', toIndex: 3 });
+    expect(next[1].content).toEqual(['p2', 'p3', 'p1']);
+    expectNumbered(next);
+  });
+
+  it('moves a paragraph to another slide', () => {
+    const next = deckReducer(deck(), { type: 'moveParagraph', fromId: 'c1', fromIndex: 1, toId: 'c2', toIndex: 0 });
+    expect(next[1].content).toEqual(['c1-a']);
+    expect(next[2].content).toEqual(['c1-b', 'c2-a', 'c2-b']);
+    expectNumbered(next);
+  });
+
+  it('moves overflow to the start of the following content slide', () => {
+    const next = deckReducer(deck(), { type: 'moveOverflow', id: 'c1', keep: ['c1-a'], overflow: ['c1-b'], newId: 'unused' });
+    expect(ids(next)).toEqual(['cover', 'c1', 'c2', 'c3', 'promo']);
+    expect(next[1].content).toEqual(['c1-a']);
+    expect(next[2].content).toEqual(['c1-b', 'c2-a', 'c2-b']);
+    expectNumbered(next);
+  });
+
+  it('moves overflow to a new slide when no content slide follows', () => {
+    const next = deckReducer(deck(), { type: 'moveOverflow', id: 'c3', keep: ['c3-a'], overflow: ['c3-b'], newId: 'c4' });
+    expect(ids(next)).toEqual(['cover', 'c1', 'c2', 'c3', 'c4', 'promo']);
+    expect(next[4].content).toEqual(['c3-b']);
+    expectNumbered(next);
+    expect(next[4].pageNumber).toBe(4);
+  });
+});
+
+// --- NO-OPS ---
+
+// Invalid actions return the very same array, so no history entry is recorded
+describe('deckReducer no-ops', () => {
+  it('does not split at the last paragraph', () => {
+    const start = deck();
+    expect(deckReducer(start, { type: 'split', id: 'c1', index: 1, newId: 'x' })).toBe(start);
+  });
+
+  it('does not merge the last slide', () => {
+    const start = deck();
+    expect(deckReducer(start, { type: 'merge', id: 'promo' })).toBe(start);
+  });
+
+  it('does not merge a cover or promo slide into the one before it', () => {
+    const start = deck();
+    expect(deckReducer(start, { type: 'merge', id: 'c3' })).toBe(start);
+    const beforeCover = reindexSlides([slide('a'), slide('cover', 'cover')]);
+    expect(deckReducer(beforeCover, { type: 'merge', id: 'a' })).toBe(beforeCover);
+  });
+
+  it('does not move to or from an index out of range', () => {
+    const start = deck();
+    expect(deckReducer(start, { type: 'move', fromIndex: 1, toIndex: 5 })).toBe(start);
+    expect(deckReducer(start, { type: 'move', fromIndex: -1, toIndex: 2 })).toBe(start);
+  });
+
+  it('ignores a paragraph index out of range', () => {
+    const start = deck();
+    expect(deckReducer(start, { type: 'moveParagraph', fromId: 'c1', fromIndex: 2, toId: 'c2', toIndex: 0 })).toBe(start);
+  });
+
+  it('ignores unknown ids', () => {
+    const start = deck();
+    expect(deckReducer(start, { type: 'delete', id: 'missing' })).toBe(start);
+    expect(deckReducer(start, { type: 'merge', id: 'missing' })).toBe(start);
+  });
+
+  it('ignores empty overflow', () => {
+    const start = deck();
+    expect(deckReducer(start, { type: 'moveOverflow', id: 'c1', keep: ['c1-a', 'c1-b'], overflow: [], newId: 'x' })).toBe(start);
+  });
+});
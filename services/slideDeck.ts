@@ -0,0 +1,237 @@
+import { SlideData, SlideType } from '../types';
+
+// --- ACTIONS ---
+
+// Every structural or content change to the deck is expressed as one of these.
+// Actions that create slides carry the new id so callers can select it afterwards.
+export type DeckAction =
+  | { type: 'replace'; slides: SlideData[]; label?: string }
+  | { type: 'add'; afterId: string; newId: string }
+  | { type: 'delete'; id: string }
+  | { type: 'split'; id: string; index: number; newId: string } // Keeps content[0..index], moves the rest
+  | { type: 'merge'; id: string } // Appends the next slide's content to this one
+  | { type: 'move'; fromIndex: number; toIndex: number }
+  | { type: 'changeType'; id: string; slideType: SlideType }
+  | { type: 'update'; id: string; patch: Partial<SlideData>; label?: string }
+  | { type: 'updateAll'; patch: Partial<SlideData>; label?: string }
+  | { type: 'setParagraph'; id: string; index: number; text: string; label?: string }
+  | { type: 'addParagraph'; id: string; text: string; index?: number; label?: string } // Appends unless index is given
+  | { type: 'deleteParagraph'; id: string; index: number }
+  | { type: 'moveParagraph'; fromId: string; fromIndex: number; toId: string; toIndex: number } // toIndex may equal content.length (append)
+  | { type: 'moveOverflow'; id: string; keep: string[]; overflow: string[]; newId: string }; // newId is used only if no content slide follows
+
+// --- NUMBERING ---
+
+// Only content pages are numbered (X/Y in the footer); cover and promo pages
+// just carry the total so they can show it if a layout wants to.
+export const reindexSlides = (slides: SlideData[]): SlideData[] => {
+  const totalContent = slides.filter(s => s.type === 'content').length;
+  let contentIndex = 0;
+
+  return slides.map(slide => {
+    if (slide.type !== 'content') {
+      const { pageNumber: _pageNumber, ...rest } = slide;
+      return { ...rest, totalPages: totalContent };
+    }
+    contentIndex++;
+    return { ...slide, pageNumber: contentIndex, totalPages: totalContent };
+  });
+};
+
+// --- HELPERS ---
+
+const mapSlide = (slides: SlideData[], id: string, fn: (slide: SlideData) => SlideData) =>
+  slides.map(s => s.id === id ? fn(s) : s);
+
+// Fields a slide picks up (or drops) when its type changes.
+const applyTypeDefaults = (slide: SlideData, slideType: SlideType): SlideData => {
+  if (slideType === 'cover') {
+    return {
+      ...slide,
+      type: 'cover',
+      coverStyle: slide.coverStyle || 'classic',
+      titleFontSize: slide.titleFontSize || 48,
+    };
+  }
+  return { ...slide, type: slideType };
+};
+
+// --- REDUCER ---
+
+const applyAction = (slides: SlideData[], action: DeckAction): SlideData[] => {
+  switch (action.type) {
+    case 'replace':
+      return action.slides;
+
+    case 'add': {
+      const index = slides.findIndex(s => s.id === action.afterId);
+      if (index === -1) return slides;
+      const newSlide: SlideData = {
+        id: action.newId,
+        type: 'content',
+        title: 'New Page',
+        content: ['Enter your text here...'],
+        category: slides[index].category, // Inherit category
+      };
+      const next = [...slides];
+      next.splice(index + 1, 0, newSlide);
+      return next;
+    }
+
+    case 'delete':
+      return slides.some(s => s.id === action.id) ? slides.filter(s => s.id !== action.id) : slides;
+
+    case 'split': {
+      const index = slides.findIndex(s => s.id === action.id);
+      if (index === -1) return slides;
+      const current = slides[index];
+      // Can't split at the very last item if nothing follows
+      if (action.index < 0 || action.index >= current.content.length - 1) return slides;
+
+      const newSlide: SlideData = {
+        id: action.newId,
+        type: 'content',
+        title: current.title, // Inherit title
+        subtitle: current.subtitle,
+        content: current.content.slice(action.index + 1),
+        category: current.category,
+        tags: current.tags,
+      };
+      const next = [...slides];
+      next[index] = { ...current, content: current.content.slice(0, action.index + 1) };
+      next.splice(index + 1, 0, newSlide);
+      return next;
+    }
+
+    case 'merge': {
+      const index = slides.findIndex(s => s.id === action.id);
+      if (index === -1 || index >= slides.length - 1) return slides;
+      const current = slides[index];
+      const following = slides[index + 1];
+      if (following.type !== 'content') return slides; // Never swallow a cover or promo page
+      const next = [...slides];
+      next[index] = { ...current, content: [...current.content, ...following.content] };
+      next.splice(index + 1, 1);
+      return next;
+    }
+
+    case 'move': {
+      const { fromIndex, toIndex } = action;
+      if (fromIndex === toIndex || fromIndex < 0 || fromIndex >= slides.length || toIndex < 0 || toIndex >= slides.length) {
+        return slides;
+      }
+      const next = [...slides];
+      const [moved] = next.splice(fromIndex, 1);
+      next.splice(toIndex, 0, moved);
+      return next;
+    }
+
+    case 'changeType':
+      return mapSlide(slides, action.id, s => s.type === action.slideType ? s : applyTypeDefaults(s, action.slideType));
+
+    case 'update':
+      return mapSlide(slides, action.id, s => ({ ...s, ...action.patch }));
+
+    case 'updateAll':
+      return slides.map(s => ({ ...s, ...action.patch }));
+
+    case 'setParagraph':
+      return mapSlide(slides, action.id, s => {
+        const content = [...s.content];
+        content[action.index] = action.text;
+        return { ...s, content };
+      });
+
+    case 'addParagraph':
+      return mapSlide(slides, action.id, s => {
+        const index = action.index ?? s.content.length;
+        return { ...s, content: [...s.content.slice(0, index), action.text, ...s.content.slice(index)] };
+      });
+
+    case 'deleteParagraph':
+      return mapSlide(slides, action.id, s => ({ ...s, content: s.content.filter((_, i) => i !== action.index) }));
+
+    case 'moveParagraph': {
+      const source = slides.find(s => s.id === action.fromId);
+      const target = slides.find(s => s.id === action.toId);
+      if (!source || !target || action.fromIndex < 0 || action.fromIndex >= source.content.length) return slides;
+
+      const paragraph = source.content[action.fromIndex];
+      if (source.id === target.id) {
+        // Reorder within one slide; toIndex refers to the list before removal
+        const content = [...source.content];
+        content.splice(action.fromIndex, 1);
+        const insertAt = Math.min(action.toIndex > action.fromIndex ? action.toIndex - 1 : action.toIndex, content.length);
+        if (insertAt === action.fromIndex) return slides;
+        content.splice(insertAt, 0, paragraph);
+        return mapSlide(slides, source.id, s => ({ ...s, content }));
+      }
+
+      return slides.map(s => {
+        if (s.id === source.id) return { ...s, content: s.content.filter((_, i) => i !== action.fromIndex) };
+        if (s.id === target.id) {
+          const content = [...s.content];
+          content.splice(Math.max(0, Math.min(action.toIndex, content.length)), 0, paragraph);
+          return { ...s, content };
+        }
+        return s;
+      });
+    }
+
+    case 'moveOverflow': {
+      const index = slides.findIndex(s => s.id === action.id);
+      if (index === -1 || action.overflow.length === 0) return slides;
+      const current = slides[index];
+      const following = slides[index + 1];
+      const next = [...slides];
+      next[index] = { ...current, content: action.keep };
+
+      if (following && following.type === 'content') {
+        next[index + 1] = { ...following, content: [...action.overflow, ...following.content] };
+      } else {
+        next.splice(index + 1, 0, {
+          id: action.newId,
+          type: 'content',
+          title: current.title,
+          content: action.overflow,
+          category: current.category,
+          tags: current.tags,
+        });
+      }
+      return next;
+    }
+
+    default:
+      return slides;
+  }
+};
+
+/**
+ * Applies a deck action and recomputes page numbering.
+ * This is the only place slide order or slide types should change.
+ */
+export const deckReducer = (slides: SlideData[], action: DeckAction): SlideData[] => {
+  const next = applyAction(slides, action);
+  return next === slides ? slides : reindexSlides(next);
+};
+
+// Human readable label for the undo history
+export const describeDeckAction = (action: DeckAction): string => {
+  switch (action.type) {
+    case 'replace': return action.label || 'Replace slides';
+    case 'add': return 'Add slide';
+    case 'delete': return 'Delete slide';
+    case 'split': return 'Split slide';
+    case 'merge': return 'Merge with next slide';
+    case 'move': return 'Move slide';
+    case 'changeType': return 'Change slide type';
+    case 'update': return action.label || 'Edit slide';
+    case 'updateAll': return action.label || 'Edit all slides';
+    case 'setParagraph': return action.label || 'Edit paragraph';
+    case 'addParagraph': return action.label || 'Add paragraph';
+    case 'deleteParagraph': return 'Delete paragraph';
+    case 'moveOverflow': return 'Move overflow to next slide';
+    case 'moveParagraph': return action.fromId === action.toId ? 'Reorder paragraph' : 'Move paragraph to another slide';
+    default: return 'Edit';
+  }
+};
@@ -0,0 +1,113 @@
+import React from 'react';
+import { Theme, ThemeColor } from '../types';
+
+// --- PRESETS ---
+
+export const THEME_FONTS: { label: string; value: string }[] = [
+  { label: 'Noto Sans SC', value: "'Noto Sans SC', sans-serif" },
+  { label: 'Noto Serif SC', value: "'Noto Serif SC', serif" },
+  { label: 'System (PingFang)', value: "-apple-system, 'PingFang SC', 'Microsoft YaHei', sans-serif" },
+];
+
+// The original RedNote look; also the fallback for missing or invalid theme fields
+export const DEFAULT_THEME: Theme = {
+  presetId: 'rednote',
+  accent: '#f43f5e',
+  heading: '#0f172a',
+  text: '#334155',
+  background: '#ffffff',
+  header: '#f8fafc',
+  highlight: '#fde68a',
+  bodyFont: THEME_FONTS[0].value,
+  headingFont: THEME_FONTS[0].value,
+  radius: 8,
+};
+
+export const THEME_PRESETS: { id: string; label: string; theme: Theme }[] = [
+  { id: 'rednote', label: 'RedNote', theme: DEFAULT_THEME },
+  {
+    id: 'ocean',
+    label: 'Ocean',
+    theme: { ...DEFAULT_THEME, presetId: 'ocean', accent: '#0284c7', heading: '#0c4a6e', text: '#334155', header: '#f0f9ff', highlight: '#bae6fd' },
+  },
+  {
+    id: 'forest',
+    label: 'Forest',
+    theme: { ...DEFAULT_THEME, presetId: 'forest', accent: '#16a34a', heading: '#14532d', text: '#3f3f46', background: '#fbfdf8', header: '#ecfdf5', highlight: '#bbf7d0', headingFont: THEME_FONTS[1].value, radius: 4 },
+  },
+  {
+    id: 'sunset',
+    label: 'Sunset',
+    theme: { ...DEFAULT_THEME, presetId: 'sunset', accent: '#ea580c', heading: '#431407', text: '#57534e', background: '#fffbf5', header: '#ffedd5', highlight: '#fed7aa', radius: 16 },
+  },
+  {
+    id: 'mono',
+    label: 'Mono',
+    theme: { ...DEFAULT_THEME, presetId: 'mono', accent: '#111827', heading: '#000000', text: '#374151', header: '#f3f4f6', highlight: '#e5e7eb', radius: 0 },
+  },
+  {
+    id: 'midnight',
+    label: 'Midnight',
+    theme: { ...DEFAULT_THEME, presetId: 'midnight', accent: '#a78bfa', heading: '#f8fafc', text: '#cbd5e1', background: '#0f172a', header: '#1e293b', highlight: '#6d28d9' },
+  },
+];
+
+export const THEME_COLORS: { key: ThemeColor; label: string }[] = [
+  { key: 'accent', label: 'Accent' },
+  { key: 'heading', label: 'Headings' },
+  { key: 'text', label: 'Body text' },
+  { key: 'background', label: 'Background' },
+  { key: 'header', label: 'Header bar' },
+  { key: 'highlight', label: 'Highlight' },
+];
+
+// --- TOKENS ---
+
+export const isHexColor = (value: unknown): value is string =>
+  typeof value === 'string' && /^#[0-9a-f]{6}$/i.test(value);
+
+// Mixes `amount` (0..1) of `color` into `base`; both #rrggbb
+export const mixColors = (color: string, base: string, amount: number): string => {
+  const channel = (hex: string, i: number) => parseInt(hex.slice(1 + i * 2, 3 + i * 2), 16);
+  return '#' + [0, 1, 2]
+    .map(i => Math.round(channel(color, i) * amount + channel(base, i) * (1 - amount)).toString(16).padStart(2, '0'))
+    .join('');
+};
+
+// Fills in missing or invalid fields from the default theme
+export const normalizeTheme = (raw: any): Theme => {
+  const theme: any = { ...DEFAULT_THEME };
+  if (!raw || typeof raw !== 'object') return theme;
+  for (const { key } of THEME_COLORS) {
+    if (isHexColor(raw[key])) theme[key] = raw[key];
+  }
+  for (const key of ['bodyFont', 'headingFont', 'presetId'] as const) {
+    if (typeof raw[key] === 'string') theme[key] = raw[key];
+  }
+  if (typeof raw.radius === 'number' && raw.radius >= 0 && raw.radius <= 32) theme.radius = raw.radius;
+  return theme;
+};
+
+/**
+ * CSS custom properties SlideRenderer styles itself with. Tints are mixed here
+ * (not with color-mix()) so the exported PNG matches the preview exactly.
+ */
+export const themeToCssVars = (theme: Theme): React.CSSProperties => {
+  const { accent, heading, text, background } = theme;
+  return {
+    '--accent': accent,
+    '--accent-soft': mixColors(accent, background, 0.08),
+    '--accent-muted': mixColors(accent, background, 0.25),
+    '--heading': heading,
+    '--text': text,
+    '--muted': mixColors(text, background, 0.6),
+    '--bg': background,
+    '--header': theme.header,
+    '--surface': mixColors(heading, background, 0.05),
+    '--border': mixColors(heading, background, 0.1),
+    '--highlight': theme.highlight,
+    '--radius': `${theme.radius}px`,
+    '--font-body': theme.bodyFont,
+    '--font-heading': theme.headingFont,
+  } as React.CSSProperties;
+};
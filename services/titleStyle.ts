@@ -0,0 +1,76 @@
+import React from 'react';
+import { TitleAlign, TitleStyle } from '../types';
+import { InlineNode, parseInline } from './richText';
+
+// --- CONFIGURATION ---
+
+// Display fonts bundled through @fontsource (imported in index.tsx), so they work offline and in the PNG export
+export const TITLE_FONTS: { label: string; value: string }[] = [
+  { label: 'ZCOOL KuaiLe (快乐体)', value: "'ZCOOL KuaiLe', sans-serif" },
+  { label: 'ZCOOL QingKe HuangYou (黄油体)', value: "'ZCOOL QingKe HuangYou', sans-serif" },
+  { label: 'Ma Shan Zheng (毛笔)', value: "'Ma Shan Zheng', cursive" },
+];
+
+type NumericField = 'strokeWidth' | 'letterSpacing';
+
+// Slider ranges in the editor, also enforced on project import
+export const TITLE_RANGES: Record<NumericField, { min: number; max: number; step: number; default: number }> = {
+  strokeWidth: { min: 0, max: 8, step: 0.5, default: 0 },
+  letterSpacing: { min: -0.1, max: 0.4, step: 0.01, default: 0 },
+};
+
+export const TITLE_ALIGNS: TitleAlign[] = ['left', 'center', 'right'];
+
+// Auto-fit searches between these sizes (px)
+export const AUTO_FIT_MIN = 24;
+export const AUTO_FIT_MAX = 96;
+
+const DEFAULT_STROKE_COLOR = '#000000';
+
+// --- HELPERS ---
+
+const valueOf = (titleStyle: TitleStyle | undefined, field: NumericField) => {
+  const value = titleStyle?.[field];
+  const range = TITLE_RANGES[field];
+  return typeof value === 'number' ? Math.min(range.max, Math.max(range.min, value)) : range.default;
+};
+
+export const isTitleStyled = (titleStyle: TitleStyle | undefined) =>
+  !!titleStyle && Object.values(titleStyle).some(value => value !== undefined);
+
+const plainText = (nodes: InlineNode[]): string =>
+  nodes.map(node => (node.type === 'text' ? node.text : plainText(node.children))).join('');
+
+// The title without its marks, for project names and lists
+export const plainTitle = (title: string) => plainText(parseInline(title));
+
+// Text of each ==marked== word, in the order highlightColors refers to them
+export const highlightedWords = (title: string): string[] => {
+  const words: string[] = [];
+  const collect = (nodes: InlineNode[]) => nodes.forEach(node => {
+    if (node.type === 'text') return;
+    if (node.type === 'highlight') words.push(plainText(node.children));
+    collect(node.children);
+  });
+  collect(parseInline(title));
+  return words;
+};
+
+// --- STYLES ---
+
+// Inline styles for the title element. Unset fields are left out, so the cover style's
+// own classes and inline styles (e.g. the note cover's handwriting) stay in charge.
+export const titleTextStyle = (titleStyle: TitleStyle | undefined): React.CSSProperties => {
+  const style: React.CSSProperties = {};
+  if (titleStyle?.font) style.fontFamily = titleStyle.font;
+  if (titleStyle?.align) style.textAlign = titleStyle.align;
+  if (titleStyle?.letterSpacing !== undefined) style.letterSpacing = `${valueOf(titleStyle, 'letterSpacing')}em`;
+
+  const strokeWidth = valueOf(titleStyle, 'strokeWidth');
+  if (strokeWidth > 0) {
+    // Half of the stroke is drawn inside the letters and then painted over, so double it
+    style.WebkitTextStroke = `${strokeWidth * 2}px ${titleStyle?.strokeColor || DEFAULT_STROKE_COLOR}`;
+    style.paintOrder = 'stroke fill';
+  }
+  return style;
+};
@@ -1,7 +1,59 @@
 
 export type SlideType = 'cover' | 'content' | 'promo';
 
-export type CoverStyle = 'classic' | 'immersive' | 'glass' | 'frame';
+export type CoverStyle = 'classic' | 'immersive' | 'glass' | 'frame' | 'poster' | 'note' | 'magazine' | 'collage' | 'checklist';
+
+// How a content slide uses its paragraphs; 'text' (the default) is the plain flow
+export type ContentLayout = 'text' | 'stat' | 'quote' | 'comparison' | 'image' | 'timeline' | 'checklist';
+
+// AI suggestions kept on the cover so the editor can swap between them.
+// The quote lives in content[0]; tags are whole tag sets.
+export interface CoverCandidates {
+  title?: string[];
+  subtitle?: string[];
+  quote?: string[];
+  tags?: string[][];
+}
+
+export type CandidateField = keyof CoverCandidates;
+
+// Which edge of the cover image a gradient darkens; 'auto' keeps the cover style's own gradient
+export type GradientDirection = 'auto' | 'none' | 'top' | 'bottom' | 'left' | 'right';
+
+// Per-cover image adjustments. Every field is optional, see services/backgroundAdjust for defaults and ranges.
+export interface BackgroundAdjust {
+  focusX?: number; // Focal point in % of the image width, kept in view when cropping and zooming
+  focusY?: number;
+  zoom?: number; // 1 = fill the frame
+  blur?: number; // px
+  brightness?: number; // %, 100 = unchanged
+  overlayColor?: string; // #rrggbb tint painted over the image
+  overlayOpacity?: number; // 0-1, 0 = no tint
+  gradient?: GradientDirection;
+  gradientStrength?: number; // 0-1, darkness at the gradient's edge
+}
+
+export type TitleAlign = 'left' | 'center' | 'right';
+
+// Cover title typography. Every field is optional, see services/titleStyle for defaults and ranges.
+export interface TitleStyle {
+  font?: string; // CSS font-family from TITLE_FONTS; the theme heading font when unset
+  highlightColors?: string[]; // #rrggbb per ==marked== word in order; the cover style's color when missing
+  strokeColor?: string; // #rrggbb outline
+  strokeWidth?: number; // px, 0 = no outline
+  align?: TitleAlign; // The cover style's own alignment when unset
+  letterSpacing?: number; // em
+  autoFit?: boolean; // Largest size that fits the style's title box, instead of titleFontSize
+}
+
+export type GeneratedBackgroundKind = 'gradient' | 'mesh' | 'geometric' | 'paper' | 'typography';
+
+// A cover background drawn in the brand colors instead of a photo; the same seed always draws the same picture
+export interface GeneratedBackground {
+  kind: GeneratedBackgroundKind;
+  seed: number;
+  text?: string; // For 'typography', defaults to the slide category
+}
 
 export interface SlideData {
   id: string;
@@ -13,15 +65,92 @@ export interface SlideData {
   tags?: string[]; // e.g. ["干货满满", "建议收藏"]
   pageNumber?: number;
   totalPages?: number;
-  backgroundImage?: string; // URL for cover bg
+  backgroundImage?: string; // URL for cover bg, or the picture of an 'image' content layout
   titleFontSize?: number; // Custom font size for cover title (px)
+  titleStyle?: TitleStyle; // For cover, typography of the title; ==word== in the title marks highlighted words
   coverStyle?: CoverStyle; // Visual variant for the cover
+  backgroundAdjust?: BackgroundAdjust; // For cover, crop and filters applied to backgroundImage
+  generatedBackground?: GeneratedBackground; // For cover, used instead of backgroundImage while set
+  collageImages?: string[]; // For the 'collage' cover, pictures shown next to the cover image
+  contentLayout?: ContentLayout; // For content, see SlideRenderer for what each layout expects in `content`
+  stepStart?: number; // For the 'timeline' layout, number of the first step on this page (default 1)
+  candidates?: CoverCandidates; // For cover, alternative AI suggestions per field
+  bulletMarker?: string; // For content, symbol in front of "- " list items (default: a dot)
+  pageBreakBefore?: boolean; // For content, starts a new section: re-paginate never merges it into the previous page
+  promoHeadline?: string; // For promo, e.g. "觉得有用就关注我吧"
+  promoHandle?: string; // For promo, account handle e.g. "@超级个体研究院"
+  promoCta?: string; // For promo, e.g. "收藏 + 关注，干货不迷路"
+  promoQrCode?: string; // For promo, URL or data URL of a QR code image
+}
+
+export interface PromoDefaults {
+  headline?: string;
+  handle?: string;
+  cta?: string;
+  qrCode?: string;
 }
 
+// Design tokens SlideRenderer is drawn with; colors are #rrggbb
+export interface Theme {
+  presetId?: string; // Preset the theme started from, cleared once edited
+  accent: string; // Bars, bullets, buttons, badges
+  heading: string;
+  text: string; // Body text
+  background: string; // Page background
+  header: string; // Content header bar
+  highlight: string; // ==marker== background
+  bodyFont: string; // CSS font-family
+  headingFont: string;
+  radius: number; // Base corner radius (px)
+}
+
+export type ThemeColor = 'accent' | 'heading' | 'text' | 'background' | 'header' | 'highlight';
+
 export interface BrandingConfig {
   logoText: string;
   brandName: string; // e.g. "超级个体研究院"
   footerSlogan: string; // e.g. "赋能每一个个体..."
   logoUrl: string; // URL for black/colored logo (light background)
   logoUrlDark: string; // URL for white logo (dark background)
-}
\ No newline at end of file
+  theme: Theme;
+}
+// A saved brand (one per account) that can be applied to any project
+export interface BrandProfile {
+  id: string;
+  name: string;
+  branding: BrandingConfig; // Logos, names and the brand's default theme
+  defaultTags: string[]; // Added to every generated cover
+  promo: PromoDefaults; // Pre-fills the closing promo page
+  createdAt: number;
+  updatedAt: number;
+}
+
+// An image in the local asset library, stored in IndexedDB so it works offline
+export interface ImageAsset {
+  id: string;
+  name: string;
+  dataUrl: string; // Already scaled down for slides, see services/imageData
+  tags: string[];
+  createdAt: number;
+}
+
+export interface ProjectDocument {
+  id: string;
+  schemaVersion: number; // Bumped whenever the persisted shape changes, see projectStore migrations
+  name: string;
+  createdAt: number;
+  updatedAt: number;
+  slides: SlideData[];
+  branding: BrandingConfig;
+  inputText: string; // Source article the slides were generated from
+  manualTitle: string;
+  manualSubtitle: string;
+}
+
+export interface ProjectSummary {
+  id: string;
+  name: string;
+  updatedAt: number;
+  slideCount: number;
+  coverTitle: string;
+}